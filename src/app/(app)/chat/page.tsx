@@ -25,23 +25,26 @@ import {
 } from '@/components/ui/dialog'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
 import { FileUploader } from '@/components/onboarding/FileUploader'
+import { useFileUploads, toProcessingFiles, type SheetSelection } from '@/lib/uploads'
+import { OrganizationSwitcher } from '@/components/org/OrganizationSwitcher'
 import { toast } from 'sonner'
-import { Leaf, FolderOpen, FileSpreadsheet, LogOut, Menu, RefreshCw } from 'lucide-react'
+import { Leaf, FolderOpen, FileSpreadsheet, LogOut, Menu, RefreshCw, BarChart3, ShieldCheck, Users } from 'lucide-react'
 
 export default function ChatPage() {
-  const { token, user, organization, logout } = useAuth()
+  const { token, user, organization, logout, can } = useAuth()
   const router = useRouter()
   const [readyStatus, setReadyStatus] = useState<ReadyStatus | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [showUploadDialog, setShowUploadDialog] = useState(false)
   const [isUploading, setIsUploading] = useState(false)
+  const { uploads, uploadFiles, pause, resume, cancel } = useFileUploads(token)
   const [isRecalculating, setIsRecalculating] = useState(false)
 
   // Conversation state
   const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null)
   const [conversationMessages, setConversationMessages] = useState<ConversationMessage[]>([])
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false)
-  const [sidebarKey, setSidebarKey] = useState(0) // Force refresh sidebar
+  const [sidebarRefreshKey, setSidebarRefreshKey] = useState(0) // Bumped to refresh the sidebar in place
 
   const handleRecalculateQuality = async () => {
     if (!token) return
@@ -63,17 +66,20 @@ export default function ChatPage() {
     }
   }
 
-  const handleFilesSelected = async (files: File[]) => {
+  const handleFilesSelected = async (files: File[], sheets: SheetSelection) => {
     if (!token) return
 
     setIsUploading(true)
     try {
-      toast.info('Subiendo y analizando archivos...')
-      const result = await onboardingApi.startProcessing(token, files)
+      const uploaded = await uploadFiles(files)
+      // Every file was cancelled
+      if (uploaded.length === 0) return
+
+      toast.info('Analizando archivos...')
+      const result = await onboardingApi.startProcessing(token, toProcessingFiles(uploaded, sheets))
 
       if (result.success) {
         if (result.model) {
-          sessionStorage.setItem('proposedModel', JSON.stringify(result.model))
           toast.success('Archivos analizados. Revisa el modelo propuesto.')
           setShowUploadDialog(false)
           router.push('/onboarding/review')
@@ -148,25 +154,16 @@ export default function ChatPage() {
   const handleConversationCreated = useCallback((conversationId: string) => {
     setSelectedConversationId(conversationId)
     // Refresh sidebar to show new conversation
-    setSidebarKey((k) => k + 1)
+    setSidebarRefreshKey((k) => k + 1)
   }, [])
 
   // Handle message sent (refresh sidebar to update counts)
   const handleMessageSent = useCallback(() => {
-    setSidebarKey((k) => k + 1)
+    setSidebarRefreshKey((k) => k + 1)
   }, [])
 
-  // Redirect if not logged in
-  if (!token) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="text-center space-y-4">
-          <p>Debes iniciar sesion para continuar</p>
-          <Button onClick={() => router.push('/')}>Ir a inicio</Button>
-        </div>
-      </div>
-    )
-  }
+  // AuthGuard only renders this page with a session
+  if (!token) return null
 
   if (isLoading) {
     return (
@@ -183,13 +180,14 @@ export default function ChatPage() {
     <div className="min-h-screen bg-background flex">
       {/* Sidebar */}
       <ConversationsSidebar
-        key={sidebarKey}
         token={token}
+        refreshKey={sidebarRefreshKey}
         selectedId={selectedConversationId || undefined}
         onSelect={setSelectedConversationId}
         onNewConversation={handleNewConversation}
         collapsed={sidebarCollapsed}
         onToggleCollapse={() => setSidebarCollapsed(!sidebarCollapsed)}
+        canDelete={can('conversations:delete')}
       />
 
       {/* Main Content */}
@@ -222,15 +220,17 @@ export default function ChatPage() {
 
             <div className="flex items-center gap-3">
               {/* Add Files Button */}
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => setShowUploadDialog(true)}
-                className="hidden sm:flex items-center gap-2"
-              >
-                <FolderOpen className="h-4 w-4" />
-                <span>Agregar datos</span>
-              </Button>
+              {can('dataSources:upload') && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowUploadDialog(true)}
+                  className="hidden sm:flex items-center gap-2"
+                >
+                  <FolderOpen className="h-4 w-4" />
+                  <span>Agregar datos</span>
+                </Button>
+              )}
 
               {/* Quality Score */}
               {readyStatus?.qualityScore && (
@@ -238,16 +238,18 @@ export default function ChatPage() {
                   <Badge variant="outline">
                     Calidad: {readyStatus.qualityScore}/100
                   </Badge>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="h-6 w-6"
-                    onClick={handleRecalculateQuality}
-                    disabled={isRecalculating}
-                    title="Recalcular calidad"
-                  >
-                    <RefreshCw className={`h-3 w-3 ${isRecalculating ? 'animate-spin' : ''}`} />
-                  </Button>
+                  {can('quality:recalculate') && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={handleRecalculateQuality}
+                      disabled={isRecalculating}
+                      title="Recalcular calidad"
+                    >
+                      <RefreshCw className={`h-3 w-3 ${isRecalculating ? 'animate-spin' : ''}`} />
+                    </Button>
+                  )}
                 </div>
               )}
 
@@ -275,14 +277,29 @@ export default function ChatPage() {
                 <DropdownMenuContent align="end">
                   <DropdownMenuLabel>Mi cuenta</DropdownMenuLabel>
                   <DropdownMenuSeparator />
-                  <DropdownMenuItem onClick={() => setShowUploadDialog(true)}>
-                    <FolderOpen className="h-4 w-4 mr-2" />
-                    Agregar datos
-                  </DropdownMenuItem>
+                  <OrganizationSwitcher />
+                  {can('dataSources:upload') && (
+                    <DropdownMenuItem onClick={() => setShowUploadDialog(true)}>
+                      <FolderOpen className="h-4 w-4 mr-2" />
+                      Agregar datos
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuItem onClick={() => router.push('/onboarding/upload')}>
                     <FileSpreadsheet className="h-4 w-4 mr-2" />
                     Ver todos los datos
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => router.push('/usage')}>
+                    <BarChart3 className="h-4 w-4 mr-2" />
+                    Uso y costos
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => router.push('/settings/security')}>
+                    <ShieldCheck className="h-4 w-4 mr-2" />
+                    Seguridad
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => router.push('/settings/team')}>
+                    <Users className="h-4 w-4 mr-2" />
+                    Equipo
+                  </DropdownMenuItem>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={logout} className="text-destructive">
                     <LogOut className="h-4 w-4 mr-2" />
@@ -321,6 +338,10 @@ export default function ChatPage() {
             <FileUploader
               onFilesSelected={handleFilesSelected}
               isUploading={isUploading}
+              uploads={uploads}
+              onPauseFile={pause}
+              onResumeFile={resume}
+              onCancelFile={cancel}
             />
           </div>
         </DialogContent>
@@ -0,0 +1,155 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { useAuth } from '@/lib/auth-context'
+import { dataSourcesApi, type DataSource, type DataSourceSchema } from '@/lib/api'
+import { SchemaTree } from '@/components/data/SchemaTree'
+import { ErDiagram } from '@/components/data/ErDiagram'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { toast } from 'sonner'
+import { Leaf, ArrowLeft, Loader2, Search, ShieldAlert } from 'lucide-react'
+
+export default function SchemaExplorerPage() {
+  const { token, user, logout } = useAuth()
+  const router = useRouter()
+  const params = useParams<{ id: string }>()
+  const [dataSource, setDataSource] = useState<DataSource | null>(null)
+  const [schema, setSchema] = useState<DataSourceSchema | null>(null)
+  const [isLoadingSchema, setIsLoadingSchema] = useState(true)
+  const [search, setSearch] = useState('')
+
+  // Load data source and its schema
+  useEffect(() => {
+    if (!token || !params.id) return
+
+    Promise.all([
+      dataSourcesApi.get(token, params.id),
+      dataSourcesApi.schema(token, params.id),
+    ])
+      .then(([sourceResult, schemaResult]) => {
+        setDataSource(sourceResult.dataSource)
+        setSchema(schemaResult)
+      })
+      .catch((error) => {
+        console.error('Error loading schema:', error)
+        toast.error('Error al cargar el esquema')
+      })
+      .finally(() => setIsLoadingSchema(false))
+  }, [token, params.id])
+
+  // AuthGuard only renders this page with a session
+  if (!token) return null
+
+  const tableCount = schema ? Object.keys(schema.schema).length : 0
+  const columnCount = schema
+    ? Object.values(schema.schema).reduce((sum, columns) => sum + columns.length, 0)
+    : 0
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card border-b">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <div className="rounded-lg bg-primary/10 p-1.5">
+              <Leaf className="h-5 w-5 text-primary" />
+            </div>
+            <span className="font-semibold text-foreground">IAvoqado</span>
+          </div>
+          <div className="flex items-center gap-4">
+            <span className="text-sm text-muted-foreground">
+              {user?.email}
+            </span>
+            <Button variant="ghost" size="sm" onClick={logout}>
+              Salir
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+        <div>
+          <Button variant="ghost" size="sm" className="mb-2 -ml-2" onClick={() => router.push('/data')}>
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Mis Datos
+          </Button>
+          <h1 className="text-2xl font-bold text-foreground">
+            Esquema{dataSource ? `: ${dataSource.name}` : ''}
+          </h1>
+          <p className="text-muted-foreground">
+            Tablas, columnas y relaciones detectadas en tus datos
+          </p>
+        </div>
+
+        {isLoadingSchema ? (
+          <div className="text-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />
+            <p className="text-muted-foreground mt-4">Cargando esquema...</p>
+          </div>
+        ) : !schema ? (
+          <div className="text-center py-12 bg-card rounded-lg border">
+            <p className="text-muted-foreground mb-4">No se pudo cargar el esquema de esta fuente de datos.</p>
+            <Button onClick={() => router.push('/data')}>Volver</Button>
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <SummaryCard value={tableCount} label="Tablas" />
+              <SummaryCard value={columnCount} label="Columnas" />
+              <SummaryCard value={schema.relationships.length} label="Relaciones" />
+              <SummaryCard value={schema.rowCount} label="Filas" />
+            </div>
+
+            {schema.piiColumns.length > 0 && (
+              <div className="flex items-center gap-2 text-sm p-3 rounded-lg border border-amber-500/30 bg-amber-50/50 dark:bg-amber-950/20 text-amber-700 dark:text-amber-400">
+                <ShieldAlert className="h-4 w-4 shrink-0" />
+                {schema.piiColumns.length} columna{schema.piiColumns.length !== 1 ? 's' : ''} con datos personales (PII)
+              </div>
+            )}
+
+            {/* Search */}
+            <div className="relative">
+              <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Buscar tablas o columnas..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+
+            <Tabs defaultValue="tables">
+              <TabsList>
+                <TabsTrigger value="tables">Tablas</TabsTrigger>
+                <TabsTrigger value="diagram">Diagrama</TabsTrigger>
+              </TabsList>
+              <TabsContent value="tables">
+                <SchemaTree schema={schema} search={search} />
+              </TabsContent>
+              <TabsContent value="diagram">
+                <ErDiagram schema={schema} highlight={search} />
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
+
+function SummaryCard({ value, label }: { value: number; label: string }) {
+  return (
+    <Card>
+      <CardContent className="pt-6 text-center">
+        <div className="text-3xl font-bold">{value.toLocaleString('es-MX')}</div>
+        <div className="text-sm text-muted-foreground">{label}</div>
+      </CardContent>
+    </Card>
+  )
+}
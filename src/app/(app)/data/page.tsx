@@ -22,14 +22,21 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { OrganizationSwitcher } from '@/components/org/OrganizationSwitcher'
 import { toast } from 'sonner'
 import { 
   Leaf, MessageSquare, Upload, FileSpreadsheet, FileText, 
-  FileType, Database, FolderOpen, Eye, Trash2, Loader2 
+  FileType, Database, FolderOpen, Eye, Trash2, Loader2, Network, Building2, ChevronDown, Users
 } from 'lucide-react'
 
 export default function DataPage() {
-  const { token, user, logout, isLoading } = useAuth()
+  const { token, user, organization, organizations, logout, can } = useAuth()
   const router = useRouter()
   const [dataSources, setDataSources] = useState<DataSource[]>([])
   const [isLoadingData, setIsLoadingData] = useState(true)
@@ -178,29 +185,8 @@ export default function DataPage() {
     }
   }
 
-  // Show loading while auth is being validated
-  if (isLoading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-background">
-        <div className="text-center space-y-4">
-          <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />
-          <p className="text-muted-foreground">Cargando...</p>
-        </div>
-      </div>
-    )
-  }
-
-  // Redirect if not logged in
-  if (!token) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-background">
-        <div className="text-center space-y-4">
-          <p className="text-foreground">Debes iniciar sesion para continuar</p>
-          <Button onClick={() => router.push('/')}>Ir a inicio</Button>
-        </div>
-      </div>
-    )
-  }
+  // AuthGuard only renders this page with a session
+  if (!token) return null
 
   return (
     <div className="min-h-screen bg-background">
@@ -218,10 +204,30 @@ export default function DataPage() {
               <MessageSquare className="h-4 w-4 mr-1" />
               Chat
             </Button>
-            <Button variant="outline" size="sm" onClick={() => router.push('/onboarding/upload')}>
-              <Upload className="h-4 w-4 mr-1" />
-              Subir archivos
-            </Button>
+            {can('dataSources:upload') && (
+              <Button variant="outline" size="sm" onClick={() => router.push('/onboarding/upload')}>
+                <Upload className="h-4 w-4 mr-1" />
+                Subir archivos
+              </Button>
+            )}
+            {organizations.length > 1 && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm">
+                    <Building2 className="h-4 w-4 mr-1" />
+                    {organization?.name}
+                    <ChevronDown className="h-3 w-3 ml-1" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <OrganizationSwitcher />
+                  <DropdownMenuItem onClick={() => router.push('/settings/team')}>
+                    <Users className="h-4 w-4 mr-2" />
+                    Equipo
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
             <span className="text-sm text-muted-foreground">
               {user?.email}
             </span>
@@ -254,12 +260,20 @@ export default function DataPage() {
               <FolderOpen className="h-8 w-8 text-primary" />
             </div>
             <h3 className="text-lg font-medium mb-2 text-foreground">No tienes datos cargados</h3>
-            <p className="text-muted-foreground mb-4">
-              Sube archivos Excel o CSV para empezar a analizar tus datos con IA
-            </p>
-            <Button onClick={() => router.push('/onboarding/upload')}>
-              Subir archivos
-            </Button>
+            {can('dataSources:upload') ? (
+              <>
+                <p className="text-muted-foreground mb-4">
+                  Sube archivos Excel o CSV para empezar a analizar tus datos con IA
+                </p>
+                <Button onClick={() => router.push('/onboarding/upload')}>
+                  Subir archivos
+                </Button>
+              </>
+            ) : (
+              <p className="text-muted-foreground">
+                Pide a un administrador de tu organizacion que suba los primeros archivos
+              </p>
+            )}
           </div>
         ) : (
           <div className="space-y-4">
@@ -303,6 +317,17 @@ export default function DataPage() {
                         Preview
                       </Button>
                     )}
+                    {/* Schema explorer for tabular sources */}
+                    {source.status === 'ready' && !['pdf', 'docx', 'doc'].includes(source.type) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => router.push(`/data/${source.id}/schema`)}
+                      >
+                        <Network className="h-4 w-4 mr-1" />
+                        Esquema
+                      </Button>
+                    )}
                     {/* View button for documents (PDF/Word) */}
                     {source.status === 'ready' && (source.type === 'pdf' || source.type === 'docx' || source.type === 'doc') && (
                       <Button
@@ -314,15 +339,17 @@ export default function DataPage() {
                         Ver
                       </Button>
                     )}
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
-                      onClick={() => setDeleteConfirm(source)}
-                    >
-                      <Trash2 className="h-4 w-4 mr-1" />
-                      Eliminar
-                    </Button>
+                    {can('dataSources:delete') && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                        onClick={() => setDeleteConfirm(source)}
+                      >
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Eliminar
+                      </Button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -461,7 +488,7 @@ export default function DataPage() {
                   <div className="bg-muted rounded-lg p-4">
                     <h4 className="font-medium mb-2 text-foreground">Entidades detectadas</h4>
                     <div className="flex flex-wrap gap-2">
-                      {documentData.content.extractedEntities.slice(0, 10).map((entity: any, idx: number) => (
+                      {documentData.content.extractedEntities.slice(0, 10).map((entity, idx) => (
                         <Badge key={idx} variant="secondary">
                           {typeof entity === 'string' ? entity : entity.name || entity.value}
                         </Badge>
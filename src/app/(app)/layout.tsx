@@ -0,0 +1,7 @@
+import { ReactNode } from 'react'
+import { AuthGuard } from '@/components/auth/AuthGuard'
+
+// Every route in this group requires a signed-in user
+export default function AppLayout({ children }: { children: ReactNode }) {
+  return <AuthGuard>{children}</AuthGuard>
+}
@@ -0,0 +1,247 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useAuth, orgStorageKey } from '@/lib/auth-context'
+import {
+  onboardingApi,
+  type WizardQuestion,
+  type WizardAnswers,
+  type OnboardingPlan,
+} from '@/lib/api'
+import { OnboardingWizard, isAnswered, type WizardAnswerValue } from '@/components/onboarding/OnboardingWizard'
+import { PlanSummary } from '@/components/onboarding/PlanSummary'
+import { Button } from '@/components/ui/button'
+import { toast } from 'sonner'
+import { Leaf, Loader2, XCircle } from 'lucide-react'
+
+// Partial answers survive reloads until the plan is generated
+const WIZARD_STORAGE_KEY = 'iavoqado_wizard'
+
+interface StoredWizard {
+  answers: Record<string, WizardAnswerValue>
+  step: number
+}
+
+function loadStoredWizard(): StoredWizard | null {
+  const stored = localStorage.getItem(orgStorageKey(WIZARD_STORAGE_KEY))
+  if (!stored) return null
+  try {
+    return JSON.parse(stored)
+  } catch {
+    localStorage.removeItem(orgStorageKey(WIZARD_STORAGE_KEY))
+    return null
+  }
+}
+
+// Fields the plan endpoint reads directly; any other question goes under `extra`
+const TYPED_ANSWER_IDS = new Set([
+  'business_type',
+  'industry',
+  'monthly_transactions',
+  'primary_metrics',
+  'data_source_type',
+  'update_frequency',
+  'data_volume',
+  'sample_questions',
+])
+
+// Answers in the shape the plan endpoint expects, whatever the stored record holds
+function toWizardAnswers(
+  answers: Record<string, WizardAnswerValue>,
+  questions: WizardQuestion[]
+): WizardAnswers {
+  const text = (id: string) => {
+    const value = answers[id]
+    if (Array.isArray(value)) return value.join(', ')
+    return typeof value === 'string' ? value : ''
+  }
+  const list = (id: string) => {
+    const value = answers[id]
+    if (Array.isArray(value)) return value.filter((item) => typeof item === 'string')
+    return typeof value === 'string' && value ? [value] : []
+  }
+  const sampleQuestions = text('sample_questions').trim()
+  // Only questions asked this time; stored answers may outlive their question
+  const extra = Object.fromEntries(
+    questions
+      .filter((q) => !TYPED_ANSWER_IDS.has(q.id) && isAnswered(answers[q.id]))
+      .map((q) => [q.id, answers[q.id]])
+  )
+
+  return {
+    business_type: text('business_type'),
+    industry: text('industry'),
+    monthly_transactions: text('monthly_transactions'),
+    primary_metrics: list('primary_metrics'),
+    data_source_type: text('data_source_type'),
+    update_frequency: text('update_frequency'),
+    data_volume: text('data_volume'),
+    ...(sampleQuestions && { sample_questions: sampleQuestions }),
+    ...(Object.keys(extra).length > 0 && { extra }),
+  }
+}
+
+export default function OnboardingPage() {
+  const { token, user, logout } = useAuth()
+  const router = useRouter()
+  const [questions, setQuestions] = useState<WizardQuestion[]>([])
+  const [totalSteps, setTotalSteps] = useState(1)
+  const [stepTitles, setStepTitles] = useState<string[]>([])
+  const [answers, setAnswers] = useState<Record<string, WizardAnswerValue>>({})
+  const [currentStep, setCurrentStep] = useState(0)
+  const [isLoadingQuestions, setIsLoadingQuestions] = useState(true)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [plan, setPlan] = useState<OnboardingPlan | null>(null)
+
+  // Load questions and restore any saved progress
+  useEffect(() => {
+    if (!token) return
+
+    onboardingApi.getQuestions(token)
+      .then((result) => {
+        setQuestions(result.questions)
+        setTotalSteps(result.totalSteps)
+        setStepTitles(result.stepTitles)
+
+        const stored = loadStoredWizard()
+        if (stored) {
+          setAnswers(stored.answers || {})
+          setCurrentStep(stored.step || 0)
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading wizard questions:', error)
+        setLoadError(error instanceof Error ? error.message : 'Error al cargar las preguntas')
+      })
+      .finally(() => setIsLoadingQuestions(false))
+  }, [token])
+
+  const saveProgress = (nextAnswers: Record<string, WizardAnswerValue>, nextStep: number) => {
+    localStorage.setItem(orgStorageKey(WIZARD_STORAGE_KEY), JSON.stringify({ answers: nextAnswers, step: nextStep }))
+  }
+
+  const handleAnswerChange = (questionId: string, value: WizardAnswerValue) => {
+    const nextAnswers = { ...answers, [questionId]: value }
+    setAnswers(nextAnswers)
+    saveProgress(nextAnswers, currentStep)
+  }
+
+  const handleStepChange = (step: number) => {
+    setCurrentStep(step)
+    saveProgress(answers, step)
+  }
+
+  const handleSubmit = async () => {
+    if (!token) return
+
+    setIsSubmitting(true)
+    try {
+      const result = await onboardingApi.submitPlan(token, toWizardAnswers(answers, questions))
+      if (result.success) {
+        localStorage.removeItem(orgStorageKey(WIZARD_STORAGE_KEY))
+        setPlan(result.plan)
+      } else {
+        toast.error('No se pudo generar el plan')
+      }
+    } catch (error) {
+      console.error('Submit plan error:', error)
+      toast.error(error instanceof Error ? error.message : 'Error al generar el plan')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleEditAnswers = () => {
+    saveProgress(answers, currentStep)
+    setPlan(null)
+  }
+
+  // AuthGuard only renders this page with a session
+  if (!token) return null
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card border-b">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <div className="rounded-lg bg-primary/10 p-1.5">
+              <Leaf className="h-5 w-5 text-primary" />
+            </div>
+            <span className="font-semibold text-foreground">IAvoqado</span>
+          </div>
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={() => router.push('/onboarding/upload')}>
+              Omitir
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              {user?.email}
+            </span>
+            <Button variant="ghost" size="sm" onClick={logout}>
+              Salir
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 py-12">
+        {isLoadingQuestions ? (
+          <div className="text-center">
+            <div className="rounded-full bg-primary/10 p-4 inline-block mb-4">
+              <Loader2 className="h-8 w-8 text-primary animate-spin" />
+            </div>
+            <p className="text-muted-foreground">Cargando preguntas...</p>
+          </div>
+        ) : loadError ? (
+          <div className="text-center space-y-4">
+            <div className="rounded-full bg-destructive/10 p-4 inline-block">
+              <XCircle className="h-8 w-8 text-destructive" />
+            </div>
+            <p className="text-destructive">{loadError}</p>
+            <Button onClick={() => router.push('/onboarding/upload')}>
+              Continuar a subir archivos
+            </Button>
+          </div>
+        ) : plan ? (
+          <PlanSummary
+            plan={plan}
+            onContinue={() => router.push('/onboarding/upload')}
+            onEditAnswers={handleEditAnswers}
+          />
+        ) : questions.length === 0 ? (
+          <div className="text-center space-y-4">
+            <p className="text-muted-foreground">
+              No hay preguntas de configuración por ahora. Puedes continuar subiendo tus archivos.
+            </p>
+            <Button onClick={() => router.push('/onboarding/upload')}>
+              Continuar a subir archivos
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="text-center mb-8">
+              <h1 className="text-2xl font-bold mb-2">Cuéntanos sobre tu negocio</h1>
+              <p className="text-muted-foreground">
+                Con tus respuestas preparamos un plan de configuración a tu medida.
+              </p>
+            </div>
+            <OnboardingWizard
+              questions={questions}
+              totalSteps={totalSteps}
+              stepTitles={stepTitles}
+              answers={answers}
+              currentStep={currentStep}
+              onAnswerChange={handleAnswerChange}
+              onStepChange={handleStepChange}
+              onSubmit={handleSubmit}
+              isSubmitting={isSubmitting}
+            />
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
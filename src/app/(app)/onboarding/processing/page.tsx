@@ -1,9 +1,12 @@
 'use client'
 
-import { useEffect, useState, useCallback } from 'react'
+import { useEffect, useMemo, useState, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/lib/auth-context'
-import { onboardingApi, type ProcessingStatus as ProcessingStatusType, type ClarificationAnswer } from '@/lib/api'
+import { onboardingApi, type ClarificationAnswer } from '@/lib/api'
+import { useProcessingStatus } from '@/lib/processing-updates'
+import { uploadFile } from '@/lib/uploads'
+import { inspectFile } from '@/lib/file-inspection'
 import { ProcessingStatus } from '@/components/onboarding/ProcessingStatus'
 import { ClarificationQuestions } from '@/components/onboarding/ClarificationQuestions'
 import { ValidationErrors } from '@/components/onboarding/ValidationErrors'
@@ -11,55 +14,29 @@ import { Button } from '@/components/ui/button'
 import { toast } from 'sonner'
 import { Leaf, XCircle, Loader2, Check } from 'lucide-react'
 
-const POLL_INTERVAL = 2000 // 2 seconds
-
 export default function ProcessingPage() {
   const { token, user, logout } = useAuth()
   const router = useRouter()
-  const [status, setStatus] = useState<ProcessingStatusType | null>(null)
-  const [error, setError] = useState<string | null>(null)
   const [showClarification, setShowClarification] = useState(false)
+  // Updates pause while clarification questions are shown
+  const { status, connection, error, restart } = useProcessingStatus(token, !showClarification)
+  const [isRetrying, setIsRetrying] = useState(false)
+  const [replacingFileId, setReplacingFileId] = useState<string | null>(null)
+  const [isContinuing, setIsContinuing] = useState(false)
 
-  // Poll for status
-  useEffect(() => {
-    if (!token) return
-    // Don't poll while showing clarification
-    if (showClarification) return
-
-    let isMounted = true
-    let pollTimeout: NodeJS.Timeout
-
-    const pollStatus = async () => {
-      try {
-        const result = await onboardingApi.getProcessingStatus(token)
-        if (isMounted) {
-          setStatus(result)
-          setError(null)
-
-          // Continue polling if not done and not needing clarification
-          const shouldContinuePolling =
-            result.stage !== 'ready' &&
-            result.stage !== 'needs_clarification' &&
-            !result.error
-
-          if (shouldContinuePolling) {
-            pollTimeout = setTimeout(pollStatus, POLL_INTERVAL)
-          }
-        }
-      } catch (err) {
-        if (isMounted) {
-          setError(err instanceof Error ? err.message : 'Error al obtener estado')
-        }
-      }
-    }
-
-    pollStatus()
+  // Files can fail validation more than once; each counts once
+  const failingFileIds = useMemo(
+    () => [...new Set(status?.validationErrors?.map((e) => e.fileId) ?? [])],
+    [status?.validationErrors]
+  )
+  const validFilesCount = status?.fileCount !== undefined ? status.fileCount - failingFileIds.length : 0
 
-    return () => {
-      isMounted = false
-      clearTimeout(pollTimeout)
+  // Continuing with valid files leads to a new model to review
+  useEffect(() => {
+    if (status?.stage === 'awaiting_confirmation' && status.model) {
+      router.replace('/onboarding/review')
     }
-  }, [token, showClarification])
+  }, [status, router])
 
   const handleComplete = useCallback(() => {
     toast.success('¡Tu chatbot está listo!')
@@ -70,6 +47,26 @@ export default function ProcessingPage() {
     router.push('/onboarding/upload')
   }, [router])
 
+  // Resume from the failed stage without uploading again
+  const handleRetry = useCallback(async () => {
+    if (!token) return
+
+    setIsRetrying(true)
+    try {
+      const result = await onboardingApi.retryProcessing(token)
+      if (result.success) {
+        toast.success(result.message || 'Reanudando el procesamiento')
+        restart(result.status)
+      } else {
+        toast.error(result.message || 'No se pudo reintentar')
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al reintentar')
+    } finally {
+      setIsRetrying(false)
+    }
+  }, [token, restart])
+
   // Show clarification UI when needed
   const handleClarificationNeeded = useCallback(() => {
     setShowClarification(true)
@@ -87,7 +84,7 @@ export default function ProcessingPage() {
           : 'Respuestas procesadas'
         )
         setShowClarification(false)
-        // Resume polling
+        // Resume updates
       } else {
         toast.error('Error al procesar respuestas')
       }
@@ -107,29 +104,69 @@ export default function ProcessingPage() {
           toast.warning(result.warning)
         }
         setShowClarification(false)
-        // Resume polling
+        // Resume updates
       }
     } catch (err) {
       toast.error(err instanceof Error ? err.message : 'Error al omitir')
     }
   }, [token])
 
+  // Process the files that passed validation, leaving out the rest
+  const handleContinueWithValid = useCallback(async () => {
+    if (!token || isContinuing) return
+
+    setIsContinuing(true)
+    try {
+      const result = await onboardingApi.continueWithValidFiles(token, failingFileIds)
+      if (result.success) {
+        toast.success(result.message || 'Continuando con los archivos válidos')
+        restart(result.status)
+      } else {
+        toast.error(result.message || 'No se pudo continuar')
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al continuar')
+    } finally {
+      setIsContinuing(false)
+    }
+  }, [token, isContinuing, failingFileIds, restart])
+
+  // Upload a fixed version of one file and validate it again
+  const handleReplaceFile = useCallback(async (fileId: string, file: File) => {
+    if (!token) return
+
+    const [issue] = (await inspectFile(file)).issues
+    if (issue) {
+      toast.error(`${file.name}: ${issue.message}`, { description: issue.suggestion })
+      return
+    }
+
+    setReplacingFileId(fileId)
+    try {
+      // A single upload without pause/resume: it retries chunks itself and
+      // throws when it gives up, so the card never waits on a stalled file
+      const uploadId = await uploadFile(token, file)
+      const result = await onboardingApi.replaceFile(token, fileId, { uploadId })
+      if (result.success) {
+        toast.success(result.message || `${file.name} reemplazado`)
+        restart(result.status)
+      } else {
+        toast.error(result.message || 'No se pudo reemplazar el archivo')
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al reemplazar el archivo')
+    } finally {
+      setReplacingFileId(null)
+    }
+  }, [token, restart])
+
   // Handle validation errors - go back to upload
   const handleValidationReupload = useCallback(() => {
     router.push('/onboarding/upload')
   }, [router])
 
-  // Redirect if not logged in
-  if (!token) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-background">
-        <div className="text-center space-y-4">
-          <p className="text-foreground">Debes iniciar sesión para continuar</p>
-          <Button onClick={() => router.push('/')}>Ir a inicio</Button>
-        </div>
-      </div>
-    )
-  }
+  // AuthGuard only renders this page with a session
+  if (!token) return null
 
   return (
     <div className="min-h-screen bg-background">
@@ -187,7 +224,12 @@ export default function ProcessingPage() {
               <ValidationErrors
                 errors={status.validationErrors}
                 warnings={status.validationWarnings}
+                validFilesCount={validFilesCount}
                 onReupload={handleValidationReupload}
+                onContinueWithValid={handleContinueWithValid}
+                onReplaceFile={handleReplaceFile}
+                replacingFileId={replacingFileId}
+                isContinuing={isContinuing}
               />
             ) : showClarification && status.clarification ? (
               /* Show clarification questions */
@@ -204,6 +246,9 @@ export default function ProcessingPage() {
                   onComplete={handleComplete}
                   onError={handleError}
                   onClarificationNeeded={handleClarificationNeeded}
+                  connection={connection}
+                  onRetry={handleRetry}
+                  isRetrying={isRetrying}
                 />
 
                 {/* Cancel button - only show while processing */}
@@ -231,7 +276,9 @@ export default function ProcessingPage() {
             <div className="rounded-full bg-primary/10 p-4 inline-block mb-4">
               <Loader2 className="h-8 w-8 text-primary animate-spin" />
             </div>
-            <p className="text-muted-foreground">Conectando...</p>
+            <p className="text-muted-foreground">
+              {connection === 'reconnecting' ? 'Conexión perdida. Reintentando...' : 'Conectando...'}
+            </p>
           </div>
         )}
       </main>
@@ -3,46 +3,65 @@
 import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/lib/auth-context'
-import { onboardingApi, type ProposedModel } from '@/lib/api'
+import { onboardingApi, type ModelModifications, type ProposedModel, type ValidationWarning } from '@/lib/api'
 import { ModelReview } from '@/components/onboarding/ModelReview'
+import { ValidationWarnings } from '@/components/onboarding/ValidationWarnings'
 import { Button } from '@/components/ui/button'
 import { toast } from 'sonner'
-import { Leaf, Loader2, Check } from 'lucide-react'
+import { Leaf, Loader2, Check, AlertCircle, RefreshCw, Upload } from 'lucide-react'
 
 export default function ReviewPage() {
   const { token, user, logout } = useAuth()
   const router = useRouter()
   const [model, setModel] = useState<ProposedModel | null>(null)
+  const [warnings, setWarnings] = useState<ValidationWarning[]>([])
   const [isConfirming, setIsConfirming] = useState(false)
+  // Why there's no model to show: the analysis is gone, or we couldn't ask
+  const [loadError, setLoadError] = useState<'expired' | 'failed' | null>(null)
+  const [loadAttempt, setLoadAttempt] = useState(0)
 
-  // Load model from sessionStorage
+  // The proposed model lives server-side with the processing state, so review
+  // works from any tab or after a restart
   useEffect(() => {
-    const storedModel = sessionStorage.getItem('proposedModel')
-    if (storedModel) {
-      try {
-        setModel(JSON.parse(storedModel))
-      } catch {
-        toast.error('Error al cargar el modelo')
-        router.push('/onboarding/upload')
-      }
-    } else {
-      toast.error('No hay modelo para revisar')
-      router.push('/onboarding/upload')
-    }
-  }, [router])
+    if (!token) return
+
+    onboardingApi.getProcessingStatus(token)
+      .then((status) => {
+        if (status.stage === 'awaiting_confirmation' && status.model) {
+          setModel(status.model)
+          setWarnings(status.validationWarnings ?? [])
+          return
+        }
+
+        // Already confirmed and still running: that's where the user belongs
+        if (status.hasProcessing && status.stage !== 'ready' && !status.error) {
+          router.replace('/onboarding/processing')
+          return
+        }
+
+        setLoadError('expired')
+      })
+      .catch((error) => {
+        console.error('Error loading model:', error)
+        setLoadError('failed')
+      })
+  }, [token, router, loadAttempt])
+
+  const handleRetryLoad = () => {
+    setLoadError(null)
+    setLoadAttempt((attempt) => attempt + 1)
+  }
 
-  const handleConfirm = async () => {
+  const handleConfirm = async (modifications?: ModelModifications) => {
     if (!token) return
 
     setIsConfirming(true)
 
     try {
-      const result = await onboardingApi.confirmModel(token, true)
+      const result = await onboardingApi.confirmModel(token, true, modifications)
 
       if (result.success) {
         toast.success('Modelo confirmado. Procesando datos...')
-        // Clear stored model
-        sessionStorage.removeItem('proposedModel')
         router.push('/onboarding/processing')
       }
     } catch (error) {
@@ -58,7 +77,6 @@ export default function ReviewPage() {
 
     try {
       await onboardingApi.confirmModel(token, false)
-      sessionStorage.removeItem('proposedModel')
       toast.info('Análisis cancelado. Puedes empezar de nuevo.')
       router.push('/onboarding/upload')
     } catch (error) {
@@ -68,13 +86,44 @@ export default function ReviewPage() {
     }
   }
 
-  // Redirect if not logged in
-  if (!token) {
+  // AuthGuard only renders this page with a session
+  if (!token) return null
+
+  if (loadError) {
     return (
-      <div className="min-h-screen flex items-center justify-center bg-background">
-        <div className="text-center space-y-4">
-          <p className="text-foreground">Debes iniciar sesión para continuar</p>
-          <Button onClick={() => router.push('/')}>Ir a inicio</Button>
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <div className="max-w-md text-center space-y-4">
+          <div className="rounded-full bg-destructive/10 p-4 inline-block">
+            <AlertCircle className="h-8 w-8 text-destructive" />
+          </div>
+          {loadError === 'expired' ? (
+            <>
+              <h2 className="text-xl font-semibold">Este análisis ya no está disponible</h2>
+              <p className="text-muted-foreground">
+                El modelo propuesto expiró o ya fue confirmado. Sube tus archivos de nuevo para generar otro análisis.
+              </p>
+              <Button onClick={() => router.push('/onboarding/upload')}>
+                <Upload className="h-4 w-4 mr-2" />
+                Subir archivos
+              </Button>
+            </>
+          ) : (
+            <>
+              <h2 className="text-xl font-semibold">No se pudo cargar el modelo</h2>
+              <p className="text-muted-foreground">
+                Revisa tu conexión e intenta de nuevo. Tu análisis sigue guardado.
+              </p>
+              <div className="flex justify-center gap-2">
+                <Button variant="outline" onClick={() => router.push('/onboarding/upload')}>
+                  Volver
+                </Button>
+                <Button onClick={handleRetryLoad}>
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Reintentar
+                </Button>
+              </div>
+            </>
+          )}
         </div>
       </div>
     )
@@ -131,7 +180,10 @@ export default function ReviewPage() {
       </div>
 
       {/* Main Content */}
-      <main className="max-w-4xl mx-auto px-4 py-8">
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        {/* Files accepted with problems the user should know about */}
+        <ValidationWarnings warnings={warnings} />
+
         <ModelReview
           model={model}
           onConfirm={handleConfirm}
@@ -5,10 +5,11 @@ import { useRouter } from 'next/navigation'
 import { useAuth } from '@/lib/auth-context'
 import { onboardingApi, type ReadyStatus } from '@/lib/api'
 import { FileUploader } from '@/components/onboarding/FileUploader'
+import { useFileUploads, toProcessingFiles, type SheetSelection, type UploadedFile } from '@/lib/uploads'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { toast } from 'sonner'
-import { Leaf, MessageSquare, FileSpreadsheet, Check } from 'lucide-react'
+import { Leaf, MessageSquare, FileSpreadsheet, Check, Lock } from 'lucide-react'
 import {
   Dialog,
   DialogContent,
@@ -19,13 +20,19 @@ import {
 } from '@/components/ui/dialog'
 
 export default function UploadPage() {
-  const { token, user, logout, isLoading } = useAuth()
+  const { token, user, logout, can } = useAuth()
   const router = useRouter()
   const [isUploading, setIsUploading] = useState(false)
+  const { uploads, uploadFiles, pause, resume, cancel } = useFileUploads(token)
   const [showDpaDialog, setShowDpaDialog] = useState(false)
   const [dpaAccepted, setDpaAccepted] = useState(false)
   const [isSigningDpa, setIsSigningDpa] = useState(false)
-  const [pendingFiles, setPendingFiles] = useState<File[] | null>(null)
+  // Files waiting on the DPA, with those already uploaded so they aren't sent again
+  const [pendingFiles, setPendingFiles] = useState<{
+    files: File[]
+    sheets: SheetSelection
+    uploaded: UploadedFile[]
+  } | null>(null)
   const [readyStatus, setReadyStatus] = useState<ReadyStatus | null>(null)
 
   // Check if there's existing data
@@ -37,18 +44,6 @@ export default function UploadPage() {
       .catch(() => {/* ignore errors */})
   }, [token])
 
-  // Show loading while auth is being validated
-  if (isLoading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="text-center space-y-4">
-          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
-          <p className="text-muted-foreground">Cargando...</p>
-        </div>
-      </div>
-    )
-  }
-
   const handleSignDpa = async () => {
     if (!token) return
 
@@ -61,7 +56,7 @@ export default function UploadPage() {
 
       // If there are pending files, upload them
       if (pendingFiles) {
-        await handleUpload(pendingFiles)
+        await handleUpload(pendingFiles.files, pendingFiles.sheets, pendingFiles.uploaded)
         setPendingFiles(null)
       }
     } catch (error) {
@@ -72,18 +67,23 @@ export default function UploadPage() {
     }
   }
 
-  const handleUpload = async (files: File[]) => {
+  const handleUpload = async (files: File[], sheets: SheetSelection, alreadyUploaded: UploadedFile[] = []) => {
     if (!token) return
 
     setIsUploading(true)
+    let uploaded = alreadyUploaded
     try {
-      toast.info('Subiendo y analizando archivos...')
-      const result = await onboardingApi.startProcessing(token, files)
+      const remaining = files.filter((file) => !alreadyUploaded.some((upload) => upload.file === file))
+      uploaded = [...alreadyUploaded, ...await uploadFiles(remaining)]
+      // Every file was cancelled
+      if (uploaded.length === 0) return
+
+      toast.info('Analizando archivos...')
+      const result = await onboardingApi.startProcessing(token, toProcessingFiles(uploaded, sheets))
 
       if (result.success) {
         if (result.model) {
           // Data files uploaded - go to review
-          sessionStorage.setItem('proposedModel', JSON.stringify(result.model))
           toast.success('Archivos analizados correctamente')
           router.push('/onboarding/review')
         } else {
@@ -102,7 +102,7 @@ export default function UploadPage() {
 
       // Check if it's a DPA error
       if (error?.code === 'DPARequired' || error?.message?.includes('Acuerdo de Procesamiento')) {
-        setPendingFiles(files)
+        setPendingFiles({ files, sheets, uploaded })
         setShowDpaDialog(true)
       } else {
         toast.error(error instanceof Error ? error.message : 'Error al subir archivos')
@@ -112,7 +112,7 @@ export default function UploadPage() {
     }
   }
 
-  const handleFilesSelected = async (files: File[]) => {
+  const handleFilesSelected = async (files: File[], sheets: SheetSelection) => {
     if (!token) {
       toast.error('Debes iniciar sesion primero')
       router.push('/')
@@ -121,25 +121,16 @@ export default function UploadPage() {
 
     // If DPA not accepted yet, show dialog
     if (!dpaAccepted) {
-      setPendingFiles(files)
+      setPendingFiles({ files, sheets, uploaded: [] })
       setShowDpaDialog(true)
       return
     }
 
-    await handleUpload(files)
+    await handleUpload(files, sheets)
   }
 
-  // Redirect if not logged in
-  if (!token) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="text-center space-y-4">
-          <p>Debes iniciar sesion para continuar</p>
-          <Button onClick={() => router.push('/')}>Ir a inicio</Button>
-        </div>
-      </div>
-    )
-  }
+  // AuthGuard only renders this page with a session
+  if (!token) return null
 
   return (
     <div className="min-h-screen bg-background">
@@ -224,10 +215,26 @@ export default function UploadPage() {
           </p>
         </div>
 
-        <FileUploader
-          onFilesSelected={handleFilesSelected}
-          isUploading={isUploading}
-        />
+        {can('dataSources:upload') ? (
+          <FileUploader
+            onFilesSelected={handleFilesSelected}
+            isUploading={isUploading}
+            uploads={uploads}
+            onPauseFile={pause}
+            onResumeFile={resume}
+            onCancelFile={cancel}
+          />
+        ) : (
+          <div className="text-center py-12 bg-card rounded-lg border">
+            <div className="rounded-full bg-muted p-4 inline-block mb-4">
+              <Lock className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h3 className="text-lg font-medium mb-2 text-foreground">Tu rol es de solo lectura</h3>
+            <p className="text-muted-foreground">
+              Solo los administradores y analistas pueden subir archivos. Pide a uno de ellos que agregue los datos.
+            </p>
+          </div>
+        )}
 
         <div className="mt-8 text-center text-sm text-muted-foreground">
           <p>Tus datos estan seguros. Usamos encriptacion de nivel bancario.</p>
@@ -0,0 +1,187 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '@/lib/auth-context'
+import { authApi } from '@/lib/api'
+import { authErrorMessage } from '@/lib/auth-errors'
+import { passwordStrength } from '@/lib/password'
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { Leaf, MessageSquare, AlertCircle } from 'lucide-react'
+
+export default function SecuritySettingsPage() {
+  const { token, user, logout } = useAuth()
+  const router = useRouter()
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [isResending, setIsResending] = useState(false)
+
+  // AuthGuard only renders this page with a session
+  if (!token) return null
+
+  const strength = passwordStrength(newPassword)
+  const mismatch = confirmPassword !== '' && newPassword !== confirmPassword
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!strength.isAcceptable || mismatch) return
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      await authApi.changePassword(token, currentPassword, newPassword)
+      toast.success('Contraseña actualizada')
+      setCurrentPassword('')
+      setNewPassword('')
+      setConfirmPassword('')
+    } catch (err) {
+      setError(authErrorMessage(err, 'No se pudo cambiar la contraseña'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleResend = async () => {
+    setIsResending(true)
+    try {
+      await authApi.resendVerification(token)
+      toast.success('Te enviamos un nuevo correo de verificación')
+    } catch (err) {
+      toast.error(authErrorMessage(err, 'No se pudo reenviar el correo'))
+    } finally {
+      setIsResending(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card border-b">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <div className="rounded-lg bg-primary/10 p-1.5">
+              <Leaf className="h-5 w-5 text-primary" />
+            </div>
+            <span className="font-semibold text-foreground">IAvoqado</span>
+          </div>
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="sm" onClick={() => router.push('/chat')}>
+              <MessageSquare className="h-4 w-4 mr-1" />
+              Chat
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              {user?.email}
+            </span>
+            <Button variant="ghost" size="sm" onClick={logout}>
+              Salir
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-2xl mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Seguridad</h1>
+          <p className="text-muted-foreground">
+            Administra tu correo y tu contraseña
+          </p>
+        </div>
+
+        {/* Email verification */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              Correo electrónico
+              {user?.emailVerified ? (
+                <Badge variant="secondary">Verificado</Badge>
+              ) : (
+                <Badge variant="outline" className="text-amber-600 border-amber-500/40">Sin verificar</Badge>
+              )}
+            </CardTitle>
+            <CardDescription>{user?.email}</CardDescription>
+          </CardHeader>
+          {!user?.emailVerified && (
+            <CardContent>
+              <Button variant="outline" size="sm" onClick={handleResend} disabled={isResending}>
+                {isResending ? 'Enviando...' : 'Reenviar correo de verificación'}
+              </Button>
+            </CardContent>
+          )}
+        </Card>
+
+        {/* Change password */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Cambiar contraseña</CardTitle>
+            <CardDescription>
+              ¿No recuerdas la actual?{' '}
+              <button
+                type="button"
+                onClick={() => router.push('/forgot-password')}
+                className="text-primary hover:underline"
+              >
+                Restablécela por correo
+              </button>
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleChangePassword} className="space-y-4">
+              <div>
+                <label className="text-sm font-medium">Contraseña actual</label>
+                <Input
+                  type="password"
+                  value={currentPassword}
+                  onChange={(e) => setCurrentPassword(e.target.value)}
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="text-sm font-medium">Nueva contraseña</label>
+                <Input
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  required
+                />
+                <PasswordStrengthMeter password={newPassword} />
+              </div>
+
+              <div>
+                <label className="text-sm font-medium">Confirmar nueva contraseña</label>
+                <Input
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                />
+                {mismatch && <p className="text-xs text-destructive mt-1">Las contraseñas no coinciden</p>}
+              </div>
+
+              {error && (
+                <div className="flex items-center gap-2 text-sm p-3 rounded-lg bg-destructive/10 text-destructive">
+                  <AlertCircle className="h-4 w-4 shrink-0" />
+                  {error}
+                </div>
+              )}
+
+              <Button type="submit" disabled={isSaving || !strength.isAcceptable || mismatch}>
+                {isSaving ? 'Guardando...' : 'Cambiar contraseña'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
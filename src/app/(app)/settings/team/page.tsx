@@ -0,0 +1,341 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '@/lib/auth-context'
+import { orgApi, type OrgInvitation, type OrgMember, type OrgRole } from '@/lib/api'
+import { authErrorMessage } from '@/lib/auth-errors'
+import { assignableRoles, canManageRole, roleDescriptions, roleLabels } from '@/lib/roles'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { toast } from 'sonner'
+import { Leaf, MessageSquare, Loader2, UserPlus, Trash2, X } from 'lucide-react'
+
+const selectClassName =
+  'h-9 rounded-md border border-input bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] dark:bg-input/30'
+
+export default function TeamSettingsPage() {
+  const { token, user, organization, logout, can } = useAuth()
+  const router = useRouter()
+  const [members, setMembers] = useState<OrgMember[]>([])
+  const [invitations, setInvitations] = useState<OrgInvitation[]>([])
+  const [isLoadingTeam, setIsLoadingTeam] = useState(true)
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<OrgRole>('analyst')
+  const [isInviting, setIsInviting] = useState(false)
+  const [removeMember, setRemoveMember] = useState<OrgMember | null>(null)
+  const canManage = can('members:manage')
+  const grantableRoles = assignableRoles(organization?.role)
+
+  // Load members and pending invitations
+  useEffect(() => {
+    if (!token) return
+
+    // Pending invitations are only visible to those who can manage them
+    Promise.all([
+      orgApi.listMembers(token),
+      canManage ? orgApi.listInvitations(token) : Promise.resolve({ invitations: [] }),
+    ])
+      .then(([membersResult, invitationsResult]) => {
+        setMembers(membersResult.members)
+        setInvitations(invitationsResult.invitations)
+      })
+      .catch((error) => {
+        console.error('Error loading team:', error)
+        toast.error(authErrorMessage(error, 'Error al cargar el equipo'))
+      })
+      .finally(() => setIsLoadingTeam(false))
+  }, [token, canManage])
+
+  // AuthGuard only renders this page with a session
+  if (!token) return null
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const email = inviteEmail.trim().toLowerCase()
+    if (!email) return
+
+    if (members.some((member) => member.email.toLowerCase() === email)) {
+      toast.error('Esta persona ya es miembro de tu organización')
+      return
+    }
+
+    setIsInviting(true)
+    try {
+      const result = await orgApi.invite(token, email, inviteRole)
+      setInvitations((prev) => [result.invitation, ...prev.filter((inv) => inv.email !== email)])
+      setInviteEmail('')
+      toast.success(`Invitación enviada a ${email}`)
+    } catch (error) {
+      toast.error(authErrorMessage(error, 'No se pudo enviar la invitación'))
+    } finally {
+      setIsInviting(false)
+    }
+  }
+
+  const handleRevoke = async (invitation: OrgInvitation) => {
+    try {
+      await orgApi.revokeInvitation(token, invitation.id)
+      setInvitations((prev) => prev.filter((inv) => inv.id !== invitation.id))
+      toast.success('Invitación cancelada')
+    } catch (error) {
+      toast.error(authErrorMessage(error, 'No se pudo cancelar la invitación'))
+    }
+  }
+
+  const handleRoleChange = async (member: OrgMember, role: OrgRole) => {
+    const previousRole = member.role
+    setMembers((prev) => prev.map((m) => (m.id === member.id ? { ...m, role } : m)))
+
+    try {
+      await orgApi.updateMemberRole(token, member.id, role)
+      toast.success(`${member.name || member.email} ahora es ${roleLabels[role].toLowerCase()}`)
+    } catch (error) {
+      setMembers((prev) => prev.map((m) => (m.id === member.id ? { ...m, role: previousRole } : m)))
+      toast.error(authErrorMessage(error, 'No se pudo cambiar el rol'))
+    }
+  }
+
+  const handleRemove = async () => {
+    if (!removeMember) return
+
+    try {
+      await orgApi.removeMember(token, removeMember.id)
+      setMembers((prev) => prev.filter((m) => m.id !== removeMember.id))
+      toast.success('Miembro eliminado')
+    } catch (error) {
+      toast.error(authErrorMessage(error, 'No se pudo eliminar al miembro'))
+    } finally {
+      setRemoveMember(null)
+    }
+  }
+
+  const roleSelect = (value: OrgRole, onSelect: (role: OrgRole) => void, disabled = false) => (
+    <select
+      value={value}
+      onChange={(e) => onSelect(e.target.value as OrgRole)}
+      className={selectClassName}
+      disabled={disabled}
+      aria-label="Rol"
+    >
+      {grantableRoles.map((role) => (
+        <option key={role} value={role}>
+          {roleLabels[role]}
+        </option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card border-b">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <div className="rounded-lg bg-primary/10 p-1.5">
+              <Leaf className="h-5 w-5 text-primary" />
+            </div>
+            <span className="font-semibold text-foreground">IAvoqado</span>
+          </div>
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="sm" onClick={() => router.push('/chat')}>
+              <MessageSquare className="h-4 w-4 mr-1" />
+              Chat
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              {user?.email}
+            </span>
+            <Button variant="ghost" size="sm" onClick={logout}>
+              Salir
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Equipo</h1>
+          <p className="text-muted-foreground">
+            Invita a tus colegas a {organization?.name || 'tu organización'} y administra sus roles
+          </p>
+        </div>
+
+        {/* Invite */}
+        {canManage && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Invitar miembro</CardTitle>
+              <CardDescription>{roleDescriptions[inviteRole]}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  type="email"
+                  placeholder="colega@empresa.com"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  required
+                  className="flex-1"
+                />
+                {roleSelect(inviteRole, setInviteRole)}
+                <Button type="submit" disabled={isInviting}>
+                  <UserPlus className="h-4 w-4 mr-1" />
+                  {isInviting ? 'Enviando...' : 'Invitar'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {isLoadingTeam ? (
+          <div className="text-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />
+            <p className="text-muted-foreground mt-4">Cargando equipo...</p>
+          </div>
+        ) : (
+          <>
+            {/* Members */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Miembros</CardTitle>
+                <CardDescription>{members.length} persona{members.length !== 1 ? 's' : ''}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Nombre</TableHead>
+                      <TableHead>Rol</TableHead>
+                      <TableHead>Desde</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {members.map((member) => {
+                      const isSelf = member.userId === user?.id
+                      const canEdit = canManage && !isSelf && canManageRole(organization?.role, member.role)
+                      return (
+                        <TableRow key={member.id}>
+                          <TableCell>
+                            <div className="font-medium">
+                              {member.name || member.email}
+                              {isSelf && <Badge variant="secondary" className="ml-2">Tú</Badge>}
+                            </div>
+                            <div className="text-xs text-muted-foreground">{member.email}</div>
+                          </TableCell>
+                          <TableCell>
+                            {!canEdit ? (
+                              <Badge variant="outline">{roleLabels[member.role]}</Badge>
+                            ) : (
+                              roleSelect(member.role, (role) => handleRoleChange(member, role))
+                            )}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {new Date(member.joinedAt).toLocaleDateString('es-MX')}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {canEdit && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => setRemoveMember(member)}
+                                aria-label="Eliminar miembro"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* Pending invitations */}
+            {canManage && invitations.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Invitaciones pendientes</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Correo</TableHead>
+                        <TableHead>Rol</TableHead>
+                        <TableHead>Expira</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {invitations.map((invitation) => {
+                        const isExpired = new Date(invitation.expiresAt).getTime() < Date.now()
+                        return (
+                          <TableRow key={invitation.id}>
+                            <TableCell className="font-medium">{invitation.email}</TableCell>
+                            <TableCell>
+                              <Badge variant="outline">{roleLabels[invitation.role]}</Badge>
+                            </TableCell>
+                            <TableCell className={isExpired ? 'text-destructive' : 'text-muted-foreground'}>
+                              {isExpired ? 'Expirada' : new Date(invitation.expiresAt).toLocaleDateString('es-MX')}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => handleRevoke(invitation)}
+                                aria-label="Cancelar invitación"
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        )
+                      })}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </main>
+
+      {/* Remove Confirmation Dialog */}
+      <AlertDialog open={!!removeMember} onOpenChange={() => setRemoveMember(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Eliminar miembro</AlertDialogTitle>
+            <AlertDialogDescription>
+              {removeMember?.name || removeMember?.email} perderá acceso a los datos y conversaciones de la organización.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRemove} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Eliminar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,462 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '@/lib/auth-context'
+import {
+  conversationsApi,
+  ApiError,
+  type Conversation,
+  type ConversationMessage,
+  type ConversationStats,
+} from '@/lib/api'
+import {
+  usageByDay,
+  usageByModel,
+  dailyUsageFromBreakdown,
+  formatUsd,
+  type DailyUsage,
+  type ModelUsage,
+} from '@/lib/usage'
+import { exportCsv } from '@/lib/export'
+import { ResultChart } from '@/components/chat/ResultChart'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { toast } from 'sonner'
+import { Leaf, MessageSquare, Loader2, Download, ArrowUp, ArrowDown, ArrowUpDown } from 'lucide-react'
+
+const PAGE_SIZE = 50
+// The table shows this many; the CSV export pages through all of them
+const MAX_CONVERSATIONS = 500
+// Without server totals, breakdowns add up the messages of this many
+// recent conversations
+const MAX_DETAILED_CONVERSATIONS = 100
+const DETAIL_CONCURRENCY = 4
+
+type SortKey = 'totalCostUsd' | 'totalTokens' | 'messageCount' | 'updatedAt'
+
+// Conversations in the server's order (most recent first), up to `limit`;
+// `truncated` says there were more
+async function listConversations(
+  token: string,
+  limit = Infinity
+): Promise<{ conversations: Conversation[]; truncated: boolean }> {
+  const conversations: Conversation[] = []
+  let offset = 0
+  let hasMore = true
+
+  while (hasMore && conversations.length < limit) {
+    const result = await conversationsApi.list(token, PAGE_SIZE, offset)
+    conversations.push(...result.conversations)
+    hasMore = result.pagination.hasMore
+    offset += PAGE_SIZE
+  }
+
+  return { conversations: conversations.slice(0, limit), truncated: hasMore || conversations.length > limit }
+}
+
+function sortConversations(conversations: Conversation[], key: SortKey, direction: 'asc' | 'desc'): Conversation[] {
+  const sorted = [...conversations].sort((a, b) =>
+    key === 'updatedAt' ? a.updatedAt.localeCompare(b.updatedAt) : a[key] - b[key]
+  )
+  return direction === 'desc' ? sorted.reverse() : sorted
+}
+
+async function loadMessages(token: string, conversations: Conversation[]): Promise<ConversationMessage[]> {
+  const messages: ConversationMessage[] = []
+  const queue = [...conversations]
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      const conversation = queue.shift()!
+      try {
+        const result = await conversationsApi.get(token, conversation.id)
+        messages.push(...result.messages)
+      } catch (error) {
+        console.error('Failed to load conversation messages:', error)
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: DETAIL_CONCURRENCY }, worker))
+  return messages
+}
+
+interface Breakdown {
+  byModel: ModelUsage[]
+  byDay: DailyUsage[]
+  // Conversations covered when only part of them could be added up
+  sampledConversations: number | null
+}
+
+// Server totals when the backend has them; otherwise the messages of the
+// most recent conversations, flagged as partial against `totalConversations`
+async function loadBreakdown(
+  token: string,
+  conversations: Conversation[],
+  totalConversations: number
+): Promise<Breakdown> {
+  try {
+    const { usage } = await conversationsApi.usage(token)
+    return {
+      byModel: [...usage.byModel].sort((a, b) => b.costUsd - a.costUsd),
+      byDay: dailyUsageFromBreakdown(usage.byDay),
+      sampledConversations: null,
+    }
+  } catch (error) {
+    if (!(error instanceof ApiError && error.status === 404)) throw error
+  }
+
+  const recent = [...conversations]
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, MAX_DETAILED_CONVERSATIONS)
+  const messages = await loadMessages(token, recent)
+  return {
+    byModel: usageByModel(messages),
+    byDay: usageByDay(messages),
+    sampledConversations: recent.length < totalConversations ? recent.length : null,
+  }
+}
+
+export default function UsagePage() {
+  const { token, user, logout } = useAuth()
+  const router = useRouter()
+  const [stats, setStats] = useState<ConversationStats | null>(null)
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  // More conversations exist than the table lists
+  const [isTruncated, setIsTruncated] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const [breakdown, setBreakdown] = useState<Breakdown | null>(null)
+  const [isLoadingUsage, setIsLoadingUsage] = useState(true)
+  const [isLoadingDetails, setIsLoadingDetails] = useState(true)
+  const [sortKey, setSortKey] = useState<SortKey>('totalCostUsd')
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc')
+
+  // Load totals and conversations, then message details for breakdowns
+  useEffect(() => {
+    if (!token) return
+
+    let isMounted = true
+
+    const load = async () => {
+      try {
+        const [statsResult, listing] = await Promise.all([
+          conversationsApi.stats(token),
+          listConversations(token, MAX_CONVERSATIONS),
+        ])
+        if (!isMounted) return
+        setStats(statsResult.stats)
+        setConversations(listing.conversations)
+        setIsTruncated(listing.truncated)
+        setIsLoadingUsage(false)
+
+        const totalConversations = Math.max(statsResult.stats.totalConversations, listing.conversations.length)
+        const details = await loadBreakdown(token, listing.conversations, totalConversations)
+        if (isMounted) setBreakdown(details)
+      } catch (error) {
+        console.error('Error loading usage:', error)
+        if (isMounted) toast.error('Error al cargar el uso')
+      } finally {
+        if (isMounted) {
+          setIsLoadingUsage(false)
+          setIsLoadingDetails(false)
+        }
+      }
+    }
+
+    load()
+
+    return () => {
+      isMounted = false
+    }
+  }, [token])
+
+  const sortedConversations = useMemo(
+    () => sortConversations(conversations, sortKey, sortDirection),
+    [conversations, sortKey, sortDirection]
+  )
+
+  const totalConversations = Math.max(stats?.totalConversations ?? 0, conversations.length)
+  const modelUsage = breakdown?.byModel ?? []
+  const dailyUsage = breakdown?.byDay ?? []
+  const coverage = breakdown?.sampledConversations
+    ? `Parcial: ${breakdown.sampledConversations} conversaciones mas recientes de ${totalConversations}`
+    : 'Todas las conversaciones'
+
+  const toggleSort = (key: SortKey) => {
+    if (sortKey === key) {
+      setSortDirection(sortDirection === 'desc' ? 'asc' : 'desc')
+    } else {
+      setSortKey(key)
+      setSortDirection('desc')
+    }
+  }
+
+  // The table may be capped; the export always covers every conversation
+  const handleExport = async () => {
+    if (!token) return
+
+    let rows = sortedConversations
+    if (isTruncated) {
+      setIsExporting(true)
+      try {
+        const { conversations: all } = await listConversations(token)
+        rows = sortConversations(all, sortKey, sortDirection)
+      } catch (error) {
+        console.error('Error exporting usage:', error)
+        toast.error('No se pudieron cargar todas las conversaciones para exportar')
+        return
+      } finally {
+        setIsExporting(false)
+      }
+    }
+
+    exportCsv(
+      rows.map((conv) => ({
+        id: conv.id,
+        titulo: conv.title,
+        mensajes: conv.messageCount,
+        tokens: conv.totalTokens,
+        costo_usd: conv.totalCostUsd,
+        creada: conv.createdAt,
+        actualizada: conv.updatedAt,
+      })),
+      `uso-conversaciones-${new Date().toISOString().slice(0, 10)}`
+    )
+  }
+
+  // AuthGuard only renders this page with a session
+  if (!token) return null
+
+  const sortIcon = (key: SortKey) =>
+    sortKey !== key ? (
+      <ArrowUpDown className="h-3 w-3 opacity-40" />
+    ) : sortDirection === 'asc' ? (
+      <ArrowUp className="h-3 w-3" />
+    ) : (
+      <ArrowDown className="h-3 w-3" />
+    )
+
+  const sortableHead = (key: SortKey, label: string, className = '') => (
+    <TableHead className={className}>
+      <button
+        type="button"
+        onClick={() => toggleSort(key)}
+        className="inline-flex items-center gap-1 hover:text-foreground"
+      >
+        {label}
+        {sortIcon(key)}
+      </button>
+    </TableHead>
+  )
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card border-b">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <div className="rounded-lg bg-primary/10 p-1.5">
+              <Leaf className="h-5 w-5 text-primary" />
+            </div>
+            <span className="font-semibold text-foreground">IAvoqado</span>
+          </div>
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="sm" onClick={() => router.push('/chat')}>
+              <MessageSquare className="h-4 w-4 mr-1" />
+              Chat
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              {user?.email}
+            </span>
+            <Button variant="ghost" size="sm" onClick={logout}>
+              Salir
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Uso y costos</h1>
+          <p className="text-muted-foreground">
+            Consumo de tokens y costo de las conversaciones de tu organizacion
+          </p>
+        </div>
+
+        {isLoadingUsage ? (
+          <div className="text-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />
+            <p className="text-muted-foreground mt-4">Cargando uso...</p>
+          </div>
+        ) : (
+          <>
+            {/* Totals */}
+            {stats && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <TotalCard value={stats.totalConversations.toLocaleString('es-MX')} label="Conversaciones" />
+                <TotalCard value={stats.totalMessages.toLocaleString('es-MX')} label="Mensajes" />
+                <TotalCard
+                  value={stats.totalTokens.toLocaleString('es-MX')}
+                  label={`Tokens (~${Math.round(stats.averageTokensPerConversation).toLocaleString('es-MX')} por conversacion)`}
+                />
+                <TotalCard value={formatUsd(stats.totalCostUsd)} label="Costo total (USD)" />
+              </div>
+            )}
+
+            {/* Daily trend and per-model breakdown */}
+            <div className="grid md:grid-cols-2 gap-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Costo diario</CardTitle>
+                  <CardDescription>{coverage}</CardDescription>
+                </CardHeader>
+                <CardContent className="p-0">
+                  {isLoadingDetails ? (
+                    <div className="text-center py-12">
+                      <Loader2 className="h-6 w-6 animate-spin text-primary mx-auto" />
+                    </div>
+                  ) : dailyUsage.length > 1 ? (
+                    <ResultChart
+                      rows={dailyUsage}
+                      spec={{ type: 'line', categoryKey: 'fecha', valueKeys: ['costo_usd'] }}
+                      filename="costo-diario"
+                    />
+                  ) : (
+                    <p className="text-center text-sm text-muted-foreground py-12">
+                      Aun no hay suficientes datos para mostrar una tendencia
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Costo por modelo</CardTitle>
+                  <CardDescription>
+                    Respuestas del asistente agrupadas por proveedor y modelo. {coverage}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {isLoadingDetails ? (
+                    <div className="text-center py-12">
+                      <Loader2 className="h-6 w-6 animate-spin text-primary mx-auto" />
+                    </div>
+                  ) : modelUsage.length === 0 ? (
+                    <p className="text-center text-sm text-muted-foreground py-12">Sin respuestas registradas</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Modelo</TableHead>
+                          <TableHead className="text-right">Respuestas</TableHead>
+                          <TableHead className="text-right">Tokens</TableHead>
+                          <TableHead className="text-right">Costo</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {modelUsage.map((usage) => (
+                          <TableRow key={`${usage.provider}/${usage.model}`}>
+                            <TableCell>
+                              <div className="font-medium">{usage.model}</div>
+                              <Badge variant="outline" className="mt-1">{usage.provider}</Badge>
+                            </TableCell>
+                            <TableCell className="text-right">{usage.messages.toLocaleString('es-MX')}</TableCell>
+                            <TableCell className="text-right">{usage.tokens.toLocaleString('es-MX')}</TableCell>
+                            <TableCell className="text-right">{formatUsd(usage.costUsd)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Per-conversation breakdown */}
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <div>
+                  <CardTitle className="text-base">Por conversacion</CardTitle>
+                  <CardDescription>
+                    {isTruncated
+                      ? `Mostrando las ${conversations.length} mas recientes de ${totalConversations} conversaciones`
+                      : `${conversations.length} conversaciones`}
+                  </CardDescription>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleExport}
+                  disabled={conversations.length === 0 || isExporting}
+                >
+                  {isExporting ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <Download className="h-4 w-4 mr-1" />
+                  )}
+                  Exportar CSV
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {conversations.length === 0 ? (
+                  <p className="text-center text-sm text-muted-foreground py-8">Sin conversaciones</p>
+                ) : (
+                  <div className="max-h-[480px] overflow-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Conversacion</TableHead>
+                          {sortableHead('messageCount', 'Mensajes', 'text-right')}
+                          {sortableHead('totalTokens', 'Tokens', 'text-right')}
+                          {sortableHead('totalCostUsd', 'Costo', 'text-right')}
+                          {sortableHead('updatedAt', 'Actualizada', 'text-right')}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {sortedConversations.map((conv) => (
+                          <TableRow key={conv.id}>
+                            <TableCell className="max-w-[280px] truncate font-medium">
+                              {conv.title || 'Sin titulo'}
+                            </TableCell>
+                            <TableCell className="text-right">{conv.messageCount.toLocaleString('es-MX')}</TableCell>
+                            <TableCell className="text-right">{conv.totalTokens.toLocaleString('es-MX')}</TableCell>
+                            <TableCell className="text-right">{formatUsd(conv.totalCostUsd)}</TableCell>
+                            <TableCell className="text-right text-muted-foreground">
+                              {new Date(conv.updatedAt).toLocaleDateString('es-MX')}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
+
+function TotalCard({ value, label }: { value: string; label: string }) {
+  return (
+    <Card>
+      <CardContent className="pt-6 text-center">
+        <div className="text-2xl font-bold">{value}</div>
+        <div className="text-sm text-muted-foreground">{label}</div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,147 @@
+'use client'
+
+import { Suspense, useEffect, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { useAuth } from '@/lib/auth-context'
+import { orgApi, type InvitationDetails } from '@/lib/api'
+import { authErrorMessage } from '@/lib/auth-errors'
+import { passwordStrength } from '@/lib/password'
+import { roleLabels } from '@/lib/roles'
+import { AuthPageShell } from '@/components/auth/AuthPageShell'
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { toast } from 'sonner'
+import { AlertCircle, Loader2 } from 'lucide-react'
+
+function AcceptInviteForm() {
+  const router = useRouter()
+  const { acceptInvite } = useAuth()
+  const inviteToken = useSearchParams().get('token')
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null)
+  const [lookupError, setLookupError] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [password, setPassword] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const strength = passwordStrength(password)
+
+  // Look up who invited us and to which organization
+  useEffect(() => {
+    if (!inviteToken) return
+
+    orgApi.getInvitation(inviteToken)
+      .then(setInvitation)
+      .catch((err) => setLookupError(authErrorMessage(err, 'No se pudo cargar la invitación')))
+  }, [inviteToken])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!inviteToken || !strength.isAcceptable) return
+
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      await acceptInvite({ inviteToken, name, password })
+      toast.success(`Bienvenido a ${invitation?.organizationName || 'tu equipo'}`)
+      // The home page routes by the organization's onboarding state
+      router.push('/')
+    } catch (err) {
+      setError(authErrorMessage(err, 'No se pudo aceptar la invitación'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!inviteToken || lookupError) {
+    return (
+      <AuthPageShell title="Invitación no válida">
+        <div className="space-y-4 text-center">
+          <AlertCircle className="h-12 w-12 text-destructive mx-auto" />
+          <p className="text-sm text-muted-foreground">
+            {lookupError || 'Este enlace no contiene un token de invitación.'} Pide a quien te invitó que te envíe una nueva.
+          </p>
+          <Button variant="outline" className="w-full" onClick={() => router.push('/')}>
+            Ir a iniciar sesión
+          </Button>
+        </div>
+      </AuthPageShell>
+    )
+  }
+
+  if (!invitation) {
+    return (
+      <AuthPageShell title="Cargando invitación">
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </AuthPageShell>
+    )
+  }
+
+  return (
+    <AuthPageShell
+      title={`Únete a ${invitation.organizationName}`}
+      description={
+        invitation.invitedByName
+          ? `${invitation.invitedByName} te invitó como ${roleLabels[invitation.role].toLowerCase()}`
+          : `Te invitaron como ${roleLabels[invitation.role].toLowerCase()}`
+      }
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className="text-sm font-medium">Email</label>
+          <Input type="email" value={invitation.email} disabled />
+        </div>
+
+        <div>
+          <label className="text-sm font-medium">Nombre</label>
+          <Input
+            type="text"
+            placeholder="Tu nombre"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+          />
+        </div>
+
+        <div>
+          <label className="text-sm font-medium">Contraseña</label>
+          <Input
+            type="password"
+            placeholder="••••••••"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+          <PasswordStrengthMeter password={password} />
+        </div>
+
+        {error && (
+          <div className="flex items-start gap-2 text-sm p-3 rounded-lg bg-destructive/10 text-destructive">
+            <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={isSubmitting || !strength.isAcceptable}
+        >
+          {isSubmitting ? 'Creando cuenta...' : 'Aceptar invitación'}
+        </Button>
+      </form>
+    </AuthPageShell>
+  )
+}
+
+export default function AcceptInvitePage() {
+  return (
+    <Suspense>
+      <AcceptInviteForm />
+    </Suspense>
+  )
+}
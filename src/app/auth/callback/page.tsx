@@ -0,0 +1,60 @@
+'use client'
+
+import { Suspense, useEffect, useRef, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { useAuth } from '@/lib/auth-context'
+import { authErrorMessage } from '@/lib/auth-errors'
+import { completeSsoLogin } from '@/lib/sso'
+import { AuthPageShell } from '@/components/auth/AuthPageShell'
+import { Button } from '@/components/ui/button'
+import { AlertCircle, Loader2 } from 'lucide-react'
+
+function SsoCallback() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const { loginWithSso } = useAuth()
+  const [error, setError] = useState<string | null>(null)
+  // Authorization codes are single-use; don't redeem twice on a re-run
+  const startedRef = useRef(false)
+
+  useEffect(() => {
+    if (startedRef.current) return
+    startedRef.current = true
+
+    completeSsoLogin(searchParams, loginWithSso)
+      .then((destination) => router.replace(destination))
+      .catch((err) => {
+        setError(authErrorMessage(err, err instanceof Error ? err.message : 'No se pudo iniciar sesión'))
+      })
+  }, [searchParams, loginWithSso, router])
+
+  if (error) {
+    return (
+      <AuthPageShell title="No se pudo iniciar sesión">
+        <div className="space-y-4 text-center">
+          <AlertCircle className="h-12 w-12 text-destructive mx-auto" />
+          <p className="text-sm text-muted-foreground">{error}</p>
+          <Button className="w-full" onClick={() => router.push('/')}>
+            Volver a iniciar sesión
+          </Button>
+        </div>
+      </AuthPageShell>
+    )
+  }
+
+  return (
+    <AuthPageShell title="Iniciando sesión" description="Verificando tu identidad con tu proveedor">
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    </AuthPageShell>
+  )
+}
+
+export default function SsoCallbackPage() {
+  return (
+    <Suspense>
+      <SsoCallback />
+    </Suspense>
+  )
+}
@@ -0,0 +1,83 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { authApi } from '@/lib/api'
+import { authErrorMessage } from '@/lib/auth-errors'
+import { AuthPageShell } from '@/components/auth/AuthPageShell'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { toast } from 'sonner'
+import { MailCheck } from 'lucide-react'
+
+export default function ForgotPasswordPage() {
+  const router = useRouter()
+  const [email, setEmail] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isSent, setIsSent] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+
+    try {
+      await authApi.forgotPassword(email)
+      setIsSent(true)
+    } catch (error) {
+      toast.error(authErrorMessage(error, 'No se pudo enviar el enlace'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (isSent) {
+    return (
+      <AuthPageShell title="Revisa tu correo">
+        <div className="space-y-4 text-center">
+          <MailCheck className="h-12 w-12 text-primary mx-auto" />
+          <p className="text-sm text-muted-foreground">
+            Si existe una cuenta con <span className="font-medium text-foreground">{email}</span>,
+            te enviamos un enlace para restablecer tu contraseña.
+          </p>
+          <Button variant="outline" className="w-full" onClick={() => router.push('/')}>
+            Volver a iniciar sesión
+          </Button>
+        </div>
+      </AuthPageShell>
+    )
+  }
+
+  return (
+    <AuthPageShell
+      title="¿Olvidaste tu contraseña?"
+      description="Te enviaremos un enlace para crear una nueva"
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className="text-sm font-medium">Email</label>
+          <Input
+            type="email"
+            placeholder="tu@email.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+          />
+        </div>
+
+        <Button type="submit" className="w-full" disabled={isSubmitting}>
+          {isSubmitting ? 'Enviando...' : 'Enviar enlace'}
+        </Button>
+
+        <div className="text-center text-sm">
+          <button
+            type="button"
+            onClick={() => router.push('/')}
+            className="text-primary hover:underline"
+          >
+            Volver a iniciar sesión
+          </button>
+        </div>
+      </form>
+    </AuthPageShell>
+  )
+}
@@ -1,5 +0,0 @@
-import { redirect } from 'next/navigation'
-
-export default function OnboardingPage() {
-  redirect('/onboarding/upload')
-}
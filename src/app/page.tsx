@@ -1,15 +1,19 @@
 'use client'
 
-import { useEffect } from 'react'
+import { useEffect, useRef } from 'react'
 import { useRouter } from 'next/navigation'
-import { useAuth } from '@/lib/auth-context'
+import { useAuth, getNextPath, resolveHomeRoute } from '@/lib/auth-context'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { useState } from 'react'
 import { toast } from 'sonner'
-import { onboardingApi } from '@/lib/api'
-import { Leaf, FileSpreadsheet, Brain, MessageSquare, Loader2 } from 'lucide-react'
+import { authErrorMessage } from '@/lib/auth-errors'
+import { authApi, ApiError, type SsoProvider } from '@/lib/api'
+import { startSsoLogin } from '@/lib/sso'
+import { passwordStrength } from '@/lib/password'
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter'
+import { Leaf, FileSpreadsheet, Brain, MessageSquare, Loader2, KeyRound } from 'lucide-react'
 
 export default function HomePage() {
   const { user, token, isLoading, login, register } = useAuth()
@@ -17,6 +21,7 @@ export default function HomePage() {
   const [mode, setMode] = useState<'login' | 'register'>('login')
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [isCheckingStatus, setIsCheckingStatus] = useState(false)
+  const isNewAccountRef = useRef(false)
 
   // Form state
   const [email, setEmail] = useState('')
@@ -24,30 +29,68 @@ export default function HomePage() {
   const [name, setName] = useState('')
   const [organizationName, setOrganizationName] = useState('')
 
-  // Redirect if already logged in - check onboarding status first
+  // Single sign-on
+  const [ssoProviders, setSsoProviders] = useState<SsoProvider[]>([])
+  // Set when the email's organization only allows SSO
+  const [requiredSso, setRequiredSso] = useState<SsoProvider | null>(null)
+
+  useEffect(() => {
+    authApi.ssoProviders()
+      .then((result) => setSsoProviders(result.providers))
+      .catch(() => {/* SSO buttons are optional */})
+  }, [])
+
+  // Single place that routes signed-in users: new accounts start with the
+  // business questionnaire, others return to `next` or go by onboarding state
   useEffect(() => {
     if (!isLoading && user && token) {
+      if (isNewAccountRef.current) {
+        router.push('/onboarding')
+        return
+      }
+
+      const next = getNextPath()
+      if (next) {
+        router.push(next)
+        return
+      }
+
       setIsCheckingStatus(true)
-      onboardingApi.checkReady(token)
-        .then((status) => {
-          if (status.ready && status.chatbot.available) {
-            router.push('/chat')
-          } else {
-            router.push('/onboarding/upload')
-          }
-        })
-        .catch(() => {
-          // If error, default to upload page
-          router.push('/onboarding/upload')
-        })
+      resolveHomeRoute(token)
+        .then((route) => router.push(route))
         .finally(() => {
           setIsCheckingStatus(false)
         })
     }
   }, [user, token, isLoading, router])
 
+  const handleSso = async (provider: SsoProvider) => {
+    setIsSubmitting(true)
+    try {
+      await startSsoLogin(provider, { loginHint: email || undefined, next: getNextPath() })
+    } catch {
+      toast.error('No se pudo iniciar sesión con SSO')
+      setIsSubmitting(false)
+    }
+  }
+
+  // Check whether the organization behind this email enforces SSO
+  const discoverSso = () => {
+    authApi.ssoDiscover(email)
+      .then((result) => setRequiredSso(result.ssoRequired ? result.provider ?? null : null))
+      .catch(() => setRequiredSso(null))
+  }
+
+  const handleEmailBlur = () => {
+    if (mode === 'login' && email.includes('@')) discoverSso()
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+    if (mode === 'register' && !passwordStrength(password).isAcceptable) {
+      toast.error('Elige una contraseña más segura')
+      return
+    }
     setIsSubmitting(true)
 
     try {
@@ -55,12 +98,23 @@ export default function HomePage() {
         await login(email, password)
         toast.success('¡Bienvenido de vuelta!')
       } else {
+        isNewAccountRef.current = true
         await register({ email, password, name, organizationName })
         toast.success('¡Cuenta creada exitosamente!')
       }
-      router.push('/onboarding/upload')
     } catch (error) {
-      toast.error(error instanceof Error ? error.message : 'Error al iniciar sesión')
+      isNewAccountRef.current = false
+      // The backend enforces SSO even if discovery didn't catch it first
+      if (error instanceof ApiError && error.code === 'SSORequired') {
+        toast.info(authErrorMessage(error, 'Tu organización requiere SSO'))
+        setMode('login')
+        discoverSso()
+        return
+      }
+      toast.error(authErrorMessage(
+        error,
+        mode === 'login' ? 'Error al iniciar sesión' : 'Error al crear la cuenta'
+      ))
     } finally {
       setIsSubmitting(false)
     }
@@ -171,31 +225,89 @@ export default function HomePage() {
                     type="email"
                     placeholder="tu@email.com"
                     value={email}
-                    onChange={(e) => setEmail(e.target.value)}
+                    onChange={(e) => {
+                      setEmail(e.target.value)
+                      setRequiredSso(null)
+                    }}
+                    onBlur={handleEmailBlur}
                     required
                   />
                 </div>
 
-                <div>
-                  <label className="text-sm font-medium">Contraseña</label>
-                  <Input
-                    type="password"
-                    placeholder="••••••••"
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    required
-                    minLength={8}
-                  />
-                </div>
+                {mode === 'login' && requiredSso ? (
+                  <div className="space-y-3">
+                    <p className="text-sm text-muted-foreground">
+                      Tu organización inicia sesión con {requiredSso.name}.
+                    </p>
+                    <Button
+                      type="button"
+                      className="w-full"
+                      onClick={() => handleSso(requiredSso)}
+                      disabled={isSubmitting}
+                    >
+                      <KeyRound className="h-4 w-4 mr-2" />
+                      {isSubmitting ? 'Redirigiendo...' : `Continuar con ${requiredSso.name}`}
+                    </Button>
+                  </div>
+                ) : (
+                  <>
+                    <div>
+                      <div className="flex items-center justify-between">
+                        <label className="text-sm font-medium">Contraseña</label>
+                        {mode === 'login' && (
+                          <button
+                            type="button"
+                            onClick={() => router.push('/forgot-password')}
+                            className="text-xs text-primary hover:underline"
+                          >
+                            ¿Olvidaste tu contraseña?
+                          </button>
+                        )}
+                      </div>
+                      <Input
+                        type="password"
+                        placeholder="••••••••"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        required
+                        minLength={8}
+                      />
+                      {mode === 'register' && <PasswordStrengthMeter password={password} />}
+                    </div>
+
+                    <Button type="submit" className="w-full" disabled={isSubmitting}>
+                      {isSubmitting
+                        ? 'Cargando...'
+                        : mode === 'login'
+                        ? 'Entrar'
+                        : 'Crear cuenta'
+                      }
+                    </Button>
+                  </>
+                )}
 
-                <Button type="submit" className="w-full" disabled={isSubmitting}>
-                  {isSubmitting
-                    ? 'Cargando...'
-                    : mode === 'login'
-                    ? 'Entrar'
-                    : 'Crear cuenta'
-                  }
-                </Button>
+                {mode === 'login' && !requiredSso && ssoProviders.length > 0 && (
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                      <div className="h-px flex-1 bg-border" />
+                      o continúa con
+                      <div className="h-px flex-1 bg-border" />
+                    </div>
+                    {ssoProviders.map((provider) => (
+                      <Button
+                        key={provider.id}
+                        type="button"
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => handleSso(provider)}
+                        disabled={isSubmitting}
+                      >
+                        <KeyRound className="h-4 w-4 mr-2" />
+                        {provider.name}
+                      </Button>
+                    ))}
+                  </div>
+                )}
 
                 <div className="text-center text-sm">
                   {mode === 'login' ? (
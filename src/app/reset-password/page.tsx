@@ -0,0 +1,138 @@
+'use client'
+
+import { Suspense, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { authApi } from '@/lib/api'
+import { authErrorMessage } from '@/lib/auth-errors'
+import { passwordStrength } from '@/lib/password'
+import { AuthPageShell } from '@/components/auth/AuthPageShell'
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { toast } from 'sonner'
+import { AlertCircle, CheckCircle2 } from 'lucide-react'
+
+function ResetPasswordForm() {
+  const router = useRouter()
+  const resetToken = useSearchParams().get('token')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isDone, setIsDone] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const strength = passwordStrength(password)
+  const mismatch = confirmPassword !== '' && password !== confirmPassword
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!resetToken || !strength.isAcceptable || mismatch) return
+
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      await authApi.resetPassword(resetToken, password)
+      setIsDone(true)
+      toast.success('Contraseña actualizada')
+    } catch (err) {
+      setError(authErrorMessage(err, 'No se pudo actualizar la contraseña'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!resetToken) {
+    return (
+      <AuthPageShell title="Enlace incompleto">
+        <div className="space-y-4 text-center">
+          <AlertCircle className="h-12 w-12 text-destructive mx-auto" />
+          <p className="text-sm text-muted-foreground">
+            Este enlace no contiene un token de restablecimiento. Solicita uno nuevo.
+          </p>
+          <Button className="w-full" onClick={() => router.push('/forgot-password')}>
+            Solicitar enlace
+          </Button>
+        </div>
+      </AuthPageShell>
+    )
+  }
+
+  if (isDone) {
+    return (
+      <AuthPageShell title="Contraseña actualizada">
+        <div className="space-y-4 text-center">
+          <CheckCircle2 className="h-12 w-12 text-primary mx-auto" />
+          <p className="text-sm text-muted-foreground">
+            Ya puedes iniciar sesión con tu nueva contraseña.
+          </p>
+          <Button className="w-full" onClick={() => router.push('/')}>
+            Iniciar sesión
+          </Button>
+        </div>
+      </AuthPageShell>
+    )
+  }
+
+  return (
+    <AuthPageShell title="Nueva contraseña" description="Elige una contraseña segura para tu cuenta">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className="text-sm font-medium">Nueva contraseña</label>
+          <Input
+            type="password"
+            placeholder="••••••••"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+          <PasswordStrengthMeter password={password} />
+        </div>
+
+        <div>
+          <label className="text-sm font-medium">Confirmar contraseña</label>
+          <Input
+            type="password"
+            placeholder="••••••••"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            required
+          />
+          {mismatch && <p className="text-xs text-destructive mt-1">Las contraseñas no coinciden</p>}
+        </div>
+
+        {error && (
+          <div className="flex items-start gap-2 text-sm p-3 rounded-lg bg-destructive/10 text-destructive">
+            <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>
+              {error}{' '}
+              <button
+                type="button"
+                onClick={() => router.push('/forgot-password')}
+                className="underline"
+              >
+                Solicitar otro enlace
+              </button>
+            </span>
+          </div>
+        )}
+
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={isSubmitting || !strength.isAcceptable || mismatch}
+        >
+          {isSubmitting ? 'Guardando...' : 'Guardar contraseña'}
+        </Button>
+      </form>
+    </AuthPageShell>
+  )
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense>
+      <ResetPasswordForm />
+    </Suspense>
+  )
+}
@@ -0,0 +1,109 @@
+'use client'
+
+import { Suspense, useEffect, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { useAuth } from '@/lib/auth-context'
+import { authApi, ApiError } from '@/lib/api'
+import { authErrorMessage } from '@/lib/auth-errors'
+import { AuthPageShell } from '@/components/auth/AuthPageShell'
+import { Button } from '@/components/ui/button'
+import { toast } from 'sonner'
+import { AlertCircle, CheckCircle2, Loader2 } from 'lucide-react'
+
+function VerifyEmail() {
+  const router = useRouter()
+  const { token } = useAuth()
+  const verificationToken = useSearchParams().get('token')
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'error'>('verifying')
+  const [error, setError] = useState<string | null>(null)
+  const [isResending, setIsResending] = useState(false)
+
+  useEffect(() => {
+    if (!verificationToken) return
+
+    const controller = new AbortController()
+
+    authApi.verifyEmail(verificationToken, { signal: controller.signal })
+      .then(() => setStatus('verified'))
+      .catch((err) => {
+        if (controller.signal.aborted) return
+        // Opening the link twice is not an error from the user's point of view
+        if (err instanceof ApiError && err.code === 'EmailAlreadyVerified') {
+          setStatus('verified')
+          return
+        }
+        setError(authErrorMessage(err, 'No se pudo verificar tu correo'))
+        setStatus('error')
+      })
+
+    return () => controller.abort()
+  }, [verificationToken])
+
+  const handleResend = async () => {
+    if (!token) return
+
+    setIsResending(true)
+    try {
+      await authApi.resendVerification(token)
+      toast.success('Te enviamos un nuevo correo de verificación')
+    } catch (err) {
+      toast.error(authErrorMessage(err, 'No se pudo reenviar el correo'))
+    } finally {
+      setIsResending(false)
+    }
+  }
+
+  const resendButton = token ? (
+    <Button className="w-full" onClick={handleResend} disabled={isResending}>
+      {isResending ? 'Enviando...' : 'Reenviar correo de verificación'}
+    </Button>
+  ) : (
+    <Button className="w-full" onClick={() => router.push('/')}>
+      Iniciar sesión para reenviar
+    </Button>
+  )
+
+  if (!verificationToken || status === 'error') {
+    return (
+      <AuthPageShell title={verificationToken ? 'No se pudo verificar' : 'Enlace incompleto'}>
+        <div className="space-y-4 text-center">
+          <AlertCircle className="h-12 w-12 text-destructive mx-auto" />
+          <p className="text-sm text-muted-foreground">
+            {error || 'Este enlace no contiene un token de verificación.'}
+          </p>
+          {resendButton}
+        </div>
+      </AuthPageShell>
+    )
+  }
+
+  if (status === 'verifying') {
+    return (
+      <AuthPageShell title="Verificando tu correo">
+        <div className="py-6 text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />
+        </div>
+      </AuthPageShell>
+    )
+  }
+
+  return (
+    <AuthPageShell title="Correo verificado">
+      <div className="space-y-4 text-center">
+        <CheckCircle2 className="h-12 w-12 text-primary mx-auto" />
+        <p className="text-sm text-muted-foreground">Tu correo quedó verificado. ¡Gracias!</p>
+        <Button className="w-full" onClick={() => router.push('/')}>
+          Continuar
+        </Button>
+      </div>
+    </AuthPageShell>
+  )
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense>
+      <VerifyEmail />
+    </Suspense>
+  )
+}
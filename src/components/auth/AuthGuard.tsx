@@ -0,0 +1,34 @@
+'use client'
+
+import { Fragment, useEffect, ReactNode } from 'react'
+import { usePathname, useRouter } from 'next/navigation'
+import { useAuth } from '@/lib/auth-context'
+import { Loader2 } from 'lucide-react'
+
+// Renders children only with a session; otherwise sends the user to login
+// with a `next` param so they come back here afterwards
+export function AuthGuard({ children }: { children: ReactNode }) {
+  const { token, organization, isLoading } = useAuth()
+  const router = useRouter()
+  const pathname = usePathname()
+
+  useEffect(() => {
+    if (isLoading || token) return
+    const returnTo = pathname + window.location.search
+    router.replace(`/?next=${encodeURIComponent(returnTo)}`)
+  }, [isLoading, token, pathname, router])
+
+  if (isLoading || !token) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center space-y-4">
+          <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />
+          <p className="text-muted-foreground">Cargando...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // Keyed by organization: switching remounts the page with fresh state
+  return <Fragment key={organization?.id}>{children}</Fragment>
+}
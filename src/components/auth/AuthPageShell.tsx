@@ -0,0 +1,33 @@
+'use client'
+
+import { ReactNode } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Leaf } from 'lucide-react'
+
+interface AuthPageShellProps {
+  title: string
+  description?: ReactNode
+  children: ReactNode
+}
+
+// Centered card with the logo, used by the standalone auth screens
+export function AuthPageShell({ title, description, children }: AuthPageShellProps) {
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center gap-6 p-4 bg-background">
+      <div className="flex items-center gap-2">
+        <div className="rounded-lg bg-primary/10 p-1.5">
+          <Leaf className="h-6 w-6 text-primary" />
+        </div>
+        <span className="text-xl font-bold text-primary">IAvoqado</span>
+      </div>
+
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>{title}</CardTitle>
+          {description && <CardDescription>{description}</CardDescription>}
+        </CardHeader>
+        <CardContent>{children}</CardContent>
+      </Card>
+    </div>
+  )
+}
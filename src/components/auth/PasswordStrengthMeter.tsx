@@ -0,0 +1,46 @@
+'use client'
+
+import { passwordStrength } from '@/lib/password'
+import { cn } from '@/lib/utils'
+import { Check, X } from 'lucide-react'
+
+const barColors = ['bg-destructive', 'bg-destructive', 'bg-amber-500', 'bg-primary', 'bg-primary']
+
+export function PasswordStrengthMeter({ password }: { password: string }) {
+  if (!password) return null
+
+  const strength = passwordStrength(password)
+
+  return (
+    <div className="space-y-2 pt-1">
+      <div className="flex items-center gap-2">
+        <div className="flex flex-1 gap-1">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <div
+              key={i}
+              className={cn(
+                'h-1 flex-1 rounded-full',
+                i < Math.max(strength.score, 1) ? barColors[strength.score] : 'bg-muted'
+              )}
+            />
+          ))}
+        </div>
+        <span className="text-xs text-muted-foreground w-16 text-right">{strength.label}</span>
+      </div>
+      <ul className="grid grid-cols-2 gap-x-2 gap-y-0.5">
+        {strength.checks.map((check) => (
+          <li
+            key={check.label}
+            className={cn(
+              'flex items-center gap-1 text-xs',
+              check.passed ? 'text-primary' : 'text-muted-foreground'
+            )}
+          >
+            {check.passed ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+            {check.label}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
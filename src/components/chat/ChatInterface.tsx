@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useRef, useEffect } from 'react'
+import { useState, useRef, useEffect, useMemo } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
@@ -14,8 +14,36 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { ResultChart } from './ResultChart'
 import { chatApi, type ChatMessage, type ConversationMessage } from '@/lib/api'
-import { Leaf, Send, Coins, Zap, Database, FileText } from 'lucide-react'
+import { inferChart, toNumber } from '@/lib/chart'
+import { copyAsTsv, exportCsv, exportXlsx, getColumns } from '@/lib/export'
+import { toast } from 'sonner'
+import {
+  Leaf,
+  Send,
+  Square,
+  Coins,
+  Zap,
+  Database,
+  FileText,
+  FileSpreadsheet,
+  BarChart3,
+  Table as TableIcon,
+  Download,
+  Copy,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+  ChevronLeft,
+  ChevronRight,
+} from 'lucide-react'
 
 interface ChatInterfaceProps {
   token: string
@@ -29,6 +57,8 @@ interface ChatInterfaceProps {
 
 interface DisplayMessage extends ChatMessage {
   id?: string
+  isStreaming?: boolean
+  stopped?: boolean
 }
 
 export function ChatInterface({
@@ -45,6 +75,9 @@ export function ChatInterface({
   const [isLoading, setIsLoading] = useState(false)
   const [currentConversationId, setCurrentConversationId] = useState<string | undefined>(conversationId)
   const scrollRef = useRef<HTMLDivElement>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  // Conversation the in-flight answer belongs to
+  const streamConversationRef = useRef<string | undefined>(undefined)
 
   // Sync with initial messages when conversation changes
   useEffect(() => {
@@ -67,6 +100,19 @@ export function ChatInterface({
     setCurrentConversationId(conversationId)
   }, [conversationId, initialMessages])
 
+  // Abort any in-flight answer when unmounting
+  useEffect(() => {
+    return () => abortRef.current?.abort()
+  }, [])
+
+  // Switching to another conversation stops the answer streaming into this one.
+  // Adopting the conversation the answer just created is not a switch.
+  useEffect(() => {
+    if (abortRef.current && streamConversationRef.current !== conversationId) {
+      abortRef.current.abort()
+    }
+  }, [conversationId])
+
   // Auto-scroll to bottom
   useEffect(() => {
     if (scrollRef.current) {
@@ -83,18 +129,53 @@ export function ChatInterface({
       timestamp: new Date().toISOString(),
     }
 
-    setMessages((prev) => [...prev, userMessage])
+    // Placeholder bubble filled incrementally as the answer streams in
+    const streamingMessage: DisplayMessage = {
+      role: 'assistant',
+      content: '',
+      timestamp: new Date().toISOString(),
+      isStreaming: true,
+    }
+
+    const updateStreamingMessage = (update: (message: DisplayMessage) => DisplayMessage) => {
+      setMessages((prev) => prev.map((m) => (m.isStreaming ? update(m) : m)))
+    }
+
+    setMessages((prev) => [...prev, userMessage, streamingMessage])
     setInput('')
     setIsLoading(true)
 
+    const controller = new AbortController()
+    abortRef.current = controller
+    streamConversationRef.current = currentConversationId
+
+    // A new conversation is adopted as soon as the server names it, so a
+    // stopped answer still continues in it
+    let adoptedConversationId = currentConversationId
+    const adoptConversation = (id: string) => {
+      if (adoptedConversationId) return
+      adoptedConversationId = id
+      streamConversationRef.current = id
+      setCurrentConversationId(id)
+      onConversationCreated?.(id)
+    }
+
     try {
-      const response = await chatApi.ask(token, question, currentConversationId)
+      const response = await chatApi.askStream(
+        token,
+        question,
+        currentConversationId,
+        {
+          onText: (delta) => updateStreamingMessage((m) => ({ ...m, content: m.content + delta })),
+          onSql: (sql) => updateStreamingMessage((m) => ({ ...m, sql })),
+          onData: (data) => updateStreamingMessage((m) => ({ ...m, data })),
+          onConversation: adoptConversation,
+        },
+        controller.signal
+      )
 
       // If this was a new conversation, notify parent
-      if (!currentConversationId && response.conversationId) {
-        setCurrentConversationId(response.conversationId)
-        onConversationCreated?.(response.conversationId)
-      }
+      if (response.conversationId) adoptConversation(response.conversationId)
 
       const assistantMessage: DisplayMessage = {
         role: 'assistant',
@@ -107,21 +188,32 @@ export function ChatInterface({
         source: response.source,
       }
 
-      setMessages((prev) => [...prev, assistantMessage])
+      updateStreamingMessage(() => assistantMessage)
       onMessageSent?.()
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Keep whatever arrived before the user stopped the answer
+        updateStreamingMessage((m) => ({ ...m, isStreaming: false, stopped: true }))
+        return
+      }
+
       const errorMessage: DisplayMessage = {
         role: 'assistant',
         content: 'Lo siento, ocurrio un error al procesar tu pregunta. Por favor intenta de nuevo.',
         error: error instanceof Error ? error.message : 'Error desconocido',
         timestamp: new Date().toISOString(),
       }
-      setMessages((prev) => [...prev, errorMessage])
+      updateStreamingMessage(() => errorMessage)
     } finally {
+      abortRef.current = null
       setIsLoading(false)
     }
   }
 
+  const stopStreaming = () => {
+    abortRef.current?.abort()
+  }
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
@@ -173,22 +265,6 @@ export function ChatInterface({
             {messages.map((message, i) => (
               <MessageBubble key={i} message={message} />
             ))}
-            {isLoading && (
-              <div className="flex items-start gap-3">
-                <Avatar className="h-8 w-8">
-                  <AvatarFallback className="bg-primary text-primary-foreground text-xs">
-                    IA
-                  </AvatarFallback>
-                </Avatar>
-                <div className="bg-muted rounded-lg p-3">
-                  <div className="flex gap-1">
-                    <span className="animate-bounce">.</span>
-                    <span className="animate-bounce" style={{ animationDelay: '0.1s' }}>.</span>
-                    <span className="animate-bounce" style={{ animationDelay: '0.2s' }}>.</span>
-                  </div>
-                </div>
-              </div>
-            )}
           </div>
         )}
       </ScrollArea>
@@ -205,14 +281,25 @@ export function ChatInterface({
             rows={1}
             disabled={isLoading}
           />
-          <Button
-            onClick={() => sendMessage(input)}
-            disabled={!input.trim() || isLoading}
-            size="lg"
-            aria-label="Enviar mensaje"
-          >
-            <Send className="h-4 w-4" />
-          </Button>
+          {isLoading ? (
+            <Button
+              onClick={stopStreaming}
+              variant="outline"
+              size="lg"
+              aria-label="Detener respuesta"
+            >
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button
+              onClick={() => sendMessage(input)}
+              disabled={!input.trim()}
+              size="lg"
+              aria-label="Enviar mensaje"
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          )}
         </div>
         <p className="text-xs text-muted-foreground mt-2 text-center">
           Enter para enviar, Shift+Enter para nueva linea
@@ -224,6 +311,9 @@ export function ChatInterface({
 
 function MessageBubble({ message }: { message: DisplayMessage }) {
   const isUser = message.role === 'user'
+  const [view, setView] = useState<'chart' | 'table'>('chart')
+  const chartSpec = useMemo(() => (message.data ? inferChart(message.data) : null), [message.data])
+  const showChart = chartSpec !== null && view === 'chart'
 
   const formatCost = (cost?: number) => {
     if (!cost || cost === 0) return null
@@ -263,9 +353,24 @@ function MessageBubble({ message }: { message: DisplayMessage }) {
               : 'bg-muted'
           }`}
         >
-          <p className="whitespace-pre-wrap">{message.content}</p>
+          {message.isStreaming && !message.content ? (
+            <div className="flex gap-1">
+              <span className="animate-bounce">.</span>
+              <span className="animate-bounce" style={{ animationDelay: '0.1s' }}>.</span>
+              <span className="animate-bounce" style={{ animationDelay: '0.2s' }}>.</span>
+            </div>
+          ) : (
+            <p className="whitespace-pre-wrap">
+              {message.content}
+              {message.isStreaming && <span className="animate-pulse">▍</span>}
+            </p>
+          )}
         </div>
 
+        {message.stopped && (
+          <p className="text-xs text-muted-foreground">Respuesta detenida</p>
+        )}
+
         {/* Message metadata (tokens, cost, source) */}
         {!isUser && (message.tokens || message.costUsd || message.source) && (
           <TooltipProvider>
@@ -324,40 +429,41 @@ function MessageBubble({ message }: { message: DisplayMessage }) {
         {/* Data Table */}
         {message.data && message.data.length > 0 && (
           <Card>
-            <CardHeader className="py-2 px-3">
+            <CardHeader className="py-2 px-3 flex flex-row items-center justify-between">
               <CardTitle className="text-sm">
                 Resultados ({message.data.length} filas)
               </CardTitle>
+              <div className="flex gap-1">
+                <ExportMenu rows={message.data} />
+                {chartSpec && (
+                  <>
+                    <Button
+                      variant={view === 'chart' ? 'secondary' : 'ghost'}
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => setView('chart')}
+                      aria-label="Ver grafica"
+                    >
+                      <BarChart3 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant={view === 'table' ? 'secondary' : 'ghost'}
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => setView('table')}
+                      aria-label="Ver tabla"
+                    >
+                      <TableIcon className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
             </CardHeader>
             <CardContent className="p-0">
-              <div className="overflow-x-auto">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      {Object.keys(message.data[0]).map((key) => (
-                        <TableHead key={key} className="text-xs">
-                          {key}
-                        </TableHead>
-                      ))}
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {message.data.slice(0, 10).map((row, i) => (
-                      <TableRow key={i}>
-                        {Object.values(row).map((value, j) => (
-                          <TableCell key={j} className="text-xs">
-                            {formatValue(value)}
-                          </TableCell>
-                        ))}
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </div>
-              {message.data.length > 10 && (
-                <p className="text-xs text-muted-foreground p-2 text-center">
-                  Mostrando 10 de {message.data.length} filas
-                </p>
+              {showChart ? (
+                <ResultChart rows={message.data} spec={chartSpec} filename="resultados" />
+              ) : (
+                <ResultTable rows={message.data} />
               )}
             </CardContent>
           </Card>
@@ -367,7 +473,165 @@ function MessageBubble({ message }: { message: DisplayMessage }) {
   )
 }
 
-function formatValue(value: any): string {
+const RESULT_PAGE_SIZE = 10
+
+type SortState = { key: string; direction: 'asc' | 'desc' } | null
+
+// Empty values sort last in either direction
+function compareValues(a: unknown, b: unknown, direction: 'asc' | 'desc'): number {
+  if (a === null || a === undefined) return b === null || b === undefined ? 0 : 1
+  if (b === null || b === undefined) return -1
+  const sign = direction === 'desc' ? -1 : 1
+  const numA = toNumber(a)
+  const numB = toNumber(b)
+  if (numA !== null && numB !== null) return sign * (numA - numB)
+  return sign * String(a).localeCompare(String(b), 'es-MX', { numeric: true })
+}
+
+function ResultTable({ rows }: { rows: NonNullable<ChatMessage['data']> }) {
+  const [page, setPage] = useState(0)
+  const [sort, setSort] = useState<SortState>(null)
+
+  const columns = useMemo(() => getColumns(rows), [rows])
+  const sortedRows = useMemo(() => {
+    if (!sort) return rows
+    return [...rows].sort((a, b) => compareValues(a[sort.key], b[sort.key], sort.direction))
+  }, [rows, sort])
+
+  const totalPages = Math.max(1, Math.ceil(rows.length / RESULT_PAGE_SIZE))
+  const currentPage = Math.min(page, totalPages - 1)
+  const pageRows = sortedRows.slice(currentPage * RESULT_PAGE_SIZE, (currentPage + 1) * RESULT_PAGE_SIZE)
+
+  // Cycle asc -> desc -> unsorted
+  const toggleSort = (key: string) => {
+    setSort((prev) => {
+      if (prev?.key !== key) return { key, direction: 'asc' }
+      if (prev.direction === 'asc') return { key, direction: 'desc' }
+      return null
+    })
+    setPage(0)
+  }
+
+  return (
+    <>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {columns.map((key) => (
+                <TableHead key={key} className="text-xs">
+                  <button
+                    type="button"
+                    onClick={() => toggleSort(key)}
+                    className="flex items-center gap-1 hover:text-foreground"
+                  >
+                    {key}
+                    {sort?.key === key ? (
+                      sort.direction === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
+                    ) : (
+                      <ArrowUpDown className="h-3 w-3 opacity-40" />
+                    )}
+                  </button>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {pageRows.map((row, i) => (
+              <TableRow key={i}>
+                {columns.map((key) => (
+                  <TableCell key={key} className="text-xs">
+                    {formatValue(row[key])}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between p-2 text-xs text-muted-foreground">
+          <span>
+            Filas {currentPage * RESULT_PAGE_SIZE + 1}-{Math.min((currentPage + 1) * RESULT_PAGE_SIZE, rows.length)} de {rows.length}
+          </span>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => setPage(currentPage - 1)}
+              disabled={currentPage === 0}
+              aria-label="Pagina anterior"
+            >
+              <ChevronLeft className="h-3 w-3" />
+            </Button>
+            <span>
+              {currentPage + 1} / {totalPages}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => setPage(currentPage + 1)}
+              disabled={currentPage >= totalPages - 1}
+              aria-label="Pagina siguiente"
+            >
+              <ChevronRight className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
+
+function ExportMenu({ rows }: { rows: NonNullable<ChatMessage['data']> }) {
+  const filename = `resultados-${new Date().toISOString().slice(0, 10)}`
+
+  const handleCopy = async () => {
+    try {
+      await copyAsTsv(rows)
+      toast.success('Datos copiados al portapapeles')
+    } catch {
+      toast.error('No se pudo copiar')
+    }
+  }
+
+  const handleXlsx = async () => {
+    try {
+      await exportXlsx(rows, filename)
+    } catch (error) {
+      console.error('XLSX export error:', error)
+      toast.error('No se pudo exportar a Excel')
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="Exportar resultados">
+          <Download className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => exportCsv(rows, filename)}>
+          <FileText className="h-4 w-4 mr-2" />
+          Descargar CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={handleXlsx}>
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          Descargar Excel
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={handleCopy}>
+          <Copy className="h-4 w-4 mr-2" />
+          Copiar como tabla
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+function formatValue(value: unknown): string {
   if (value === null || value === undefined) return '-'
   if (typeof value === 'number') {
     return value.toLocaleString('es-MX')
@@ -1,7 +1,8 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef, useCallback } from 'react'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Skeleton } from '@/components/ui/skeleton'
 import {
@@ -20,7 +21,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
-import { conversationsApi, type Conversation } from '@/lib/api'
+import { conversationsApi, ApiError, type Conversation } from '@/lib/api'
 import {
   Plus,
   MessageSquare,
@@ -30,6 +31,10 @@ import {
   Coins,
   ChevronLeft,
   ChevronRight,
+  Sparkles,
+  Search,
+  X,
+  Loader2,
 } from 'lucide-react'
 import { toast } from 'sonner'
 import { cn } from '@/lib/utils'
@@ -41,6 +46,53 @@ interface ConversationsSidebarProps {
   onNewConversation: () => void
   collapsed?: boolean
   onToggleCollapse?: () => void
+  canDelete?: boolean
+  // Changing it reloads the newest conversations, keeping search and loaded pages
+  refreshKey?: number
+}
+
+const PAGE_SIZE = 30
+const MAX_TITLE_LENGTH = 60
+const DAY_MS = 1000 * 60 * 60 * 24
+
+type DateGroup = 'today' | 'yesterday' | 'week' | 'older'
+
+const dateGroupLabels: Record<DateGroup, string> = {
+  today: 'Hoy',
+  yesterday: 'Ayer',
+  week: 'Ultimos 7 dias',
+  older: 'Anteriores',
+}
+
+// Calendar days in local time, so "Hoy" matches the user's clock
+function dateGroup(dateStr: string, now: Date): DateGroup {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()
+  const time = new Date(dateStr).getTime()
+  if (time >= startOfToday) return 'today'
+  if (time >= startOfToday - DAY_MS) return 'yesterday'
+  if (time >= startOfToday - 7 * DAY_MS) return 'week'
+  return 'older'
+}
+
+function groupByDate(conversations: Conversation[]) {
+  const now = new Date()
+  const groups = new Map<DateGroup, Conversation[]>()
+  conversations.forEach((conv) => {
+    const group = dateGroup(conv.updatedAt, now)
+    groups.set(group, [...(groups.get(group) || []), conv])
+  })
+  return (Object.keys(dateGroupLabels) as DateGroup[])
+    .filter((group) => groups.has(group))
+    .map((group) => ({ group, conversations: groups.get(group)! }))
+}
+
+// First line of the question, cut at a word boundary
+function deriveTitle(content: string): string {
+  const firstLine = content.trim().split('\n')[0].replace(/\s+/g, ' ')
+  if (firstLine.length <= MAX_TITLE_LENGTH) return firstLine
+  const cut = firstLine.slice(0, MAX_TITLE_LENGTH)
+  const lastSpace = cut.lastIndexOf(' ')
+  return `${lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut}…`
 }
 
 export function ConversationsSidebar({
@@ -50,26 +102,117 @@ export function ConversationsSidebar({
   onNewConversation,
   collapsed = false,
   onToggleCollapse,
+  canDelete = true,
+  refreshKey = 0,
 }: ConversationsSidebarProps) {
   const [conversations, setConversations] = useState<Conversation[]>([])
+  // Server offset of the next page; the list can't tell after deletes,
+  // refreshes or deduplicated pages
+  const [nextOffset, setNextOffset] = useState(0)
+  const conversationsRef = useRef<Conversation[]>([])
+  const handledRefreshKeyRef = useRef(refreshKey)
   const [isLoading, setIsLoading] = useState(true)
   const [deleteId, setDeleteId] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editTitle, setEditTitle] = useState('')
+  const cancelledRenameRef = useRef(false)
 
-  // Load conversations
+  const [hasMore, setHasMore] = useState(false)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [search, setSearch] = useState('')
+  const [query, setQuery] = useState('')
+  const requestIdRef = useRef(0)
+  const sentinelRef = useRef<HTMLDivElement>(null)
+
+  // Debounce search input
   useEffect(() => {
-    loadConversations()
-  }, [token])
+    const timeout = setTimeout(() => setQuery(search.trim()), 300)
+    return () => clearTimeout(timeout)
+  }, [search])
 
-  const loadConversations = async () => {
+  // Load first page whenever the search changes; stale responses are ignored
+  useEffect(() => {
+    const requestId = ++requestIdRef.current
+
+    conversationsApi
+      .list(token, PAGE_SIZE, 0, query || undefined)
+      .then((result) => {
+        if (requestId !== requestIdRef.current) return
+        setConversations(result.conversations)
+        setNextOffset(result.conversations.length)
+        setHasMore(result.pagination.hasMore)
+      })
+      .catch((error) => {
+        console.error('Failed to load conversations:', error)
+      })
+      .finally(() => {
+        if (requestId === requestIdRef.current) setIsLoading(false)
+      })
+  }, [token, query])
+
+  useEffect(() => {
+    conversationsRef.current = conversations
+  }, [conversations])
+
+  // Refresh in place: newest conversations go on top, updated ones are
+  // replaced, and the pages already loaded stay
+  useEffect(() => {
+    if (refreshKey === handledRefreshKeyRef.current) return
+    handledRefreshKeyRef.current = refreshKey
+    const requestId = requestIdRef.current
+
+    conversationsApi
+      .list(token, PAGE_SIZE, 0, query || undefined)
+      .then((result) => {
+        if (requestId !== requestIdRef.current) return
+        const known = new Set(conversationsRef.current.map((c) => c.id))
+        const freshIds = new Set(result.conversations.map((c) => c.id))
+        // New conversations push everything after them one place down
+        setNextOffset((offset) => offset + result.conversations.filter((c) => !known.has(c.id)).length)
+        setConversations((prev) => [...result.conversations, ...prev.filter((c) => !freshIds.has(c.id))])
+      })
+      .catch((error) => {
+        console.error('Failed to refresh conversations:', error)
+      })
+  }, [token, query, refreshKey])
+
+  const loadMore = useCallback(async () => {
+    if (isLoadingMore || !hasMore) return
+
+    const requestId = requestIdRef.current
+    setIsLoadingMore(true)
     try {
-      const result = await conversationsApi.list(token)
-      setConversations(result.conversations)
+      const result = await conversationsApi.list(token, PAGE_SIZE, nextOffset, query || undefined)
+      if (requestId !== requestIdRef.current) return
+      setNextOffset(nextOffset + result.conversations.length)
+      // Skip duplicates in case the list shifted between pages
+      setConversations((prev) => {
+        const seen = new Set(prev.map((c) => c.id))
+        return [...prev, ...result.conversations.filter((c) => !seen.has(c.id))]
+      })
+      setHasMore(result.pagination.hasMore)
     } catch (error) {
-      console.error('Failed to load conversations:', error)
+      console.error('Failed to load more conversations:', error)
+      toast.error('Error al cargar mas conversaciones')
     } finally {
-      setIsLoading(false)
+      setIsLoadingMore(false)
     }
-  }
+  }, [token, query, nextOffset, hasMore, isLoadingMore])
+
+  // Infinite scroll: fetch the next page when the end of the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !hasMore) return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) loadMore()
+      },
+      { rootMargin: '200px' }
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, loadMore])
 
   const handleDelete = async () => {
     if (!deleteId) return
@@ -77,6 +220,8 @@ export function ConversationsSidebar({
     try {
       await conversationsApi.delete(token, deleteId)
       setConversations((prev) => prev.filter((c) => c.id !== deleteId))
+      // Everything after it moved up one place on the server
+      setNextOffset((offset) => Math.max(0, offset - 1))
       if (selectedId === deleteId) {
         onSelect(null)
       }
@@ -88,6 +233,63 @@ export function ConversationsSidebar({
     }
   }
 
+  const startRename = (conv: Conversation) => {
+    cancelledRenameRef.current = false
+    setEditingId(conv.id)
+    setEditTitle(conv.title || '')
+  }
+
+  const cancelRename = () => {
+    setEditingId(null)
+    setEditTitle('')
+  }
+
+  // Optimistic update, rolled back if the server rejects it
+  const saveTitle = async (id: string, title: string) => {
+    const previous = conversations.find((c) => c.id === id)
+    if (!previous) return
+
+    setConversations((prev) => prev.map((c) => (c.id === id ? { ...c, title } : c)))
+
+    try {
+      const result = await conversationsApi.updateTitle(token, id, title)
+      setConversations((prev) => prev.map((c) => (c.id === id ? { ...c, title: result.title } : c)))
+    } catch (error) {
+      setConversations((prev) => prev.map((c) => (c.id === id ? { ...c, title: previous.title } : c)))
+      toast.error(error instanceof ApiError ? error.message : 'Error al renombrar')
+    }
+  }
+
+  // Blur commits the rename; Escape cancels without saving
+  const handleRename = () => {
+    if (cancelledRenameRef.current) {
+      cancelledRenameRef.current = false
+      return
+    }
+    if (!editingId) return
+    const id = editingId
+    const title = editTitle.trim()
+    const current = conversations.find((c) => c.id === id)
+    cancelRename()
+
+    if (!title || title === current?.title) return
+    saveTitle(id, title)
+  }
+
+  const handleAutoTitle = async (id: string) => {
+    try {
+      const result = await conversationsApi.get(token, id)
+      const firstQuestion = result.messages.find((m) => m.role === 'user' && m.content.trim())
+      if (!firstQuestion) {
+        toast.error('La conversacion no tiene preguntas todavia')
+        return
+      }
+      saveTitle(id, deriveTitle(firstQuestion.content))
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : 'Error al generar el titulo')
+    }
+  }
+
   const formatDate = (dateStr: string) => {
     const date = new Date(dateStr)
     const now = new Date()
@@ -155,6 +357,31 @@ export function ConversationsSidebar({
         )}
       </div>
 
+      {/* Search */}
+      <div className="p-2 border-b">
+        <div className="relative">
+          <Search className="h-4 w-4 absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Buscar conversaciones..."
+            className="h-8 pl-8 pr-8 text-sm"
+            aria-label="Buscar conversaciones"
+          />
+          {search && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setSearch('')}
+              className="absolute right-0.5 top-1/2 -translate-y-1/2 h-7 w-7"
+              aria-label="Limpiar busqueda"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+
       {/* Conversations List */}
       <ScrollArea className="flex-1">
         <div className="p-2 space-y-1">
@@ -166,6 +393,12 @@ export function ConversationsSidebar({
                 <Skeleton className="h-3 w-20" />
               </div>
             ))
+          ) : conversations.length === 0 && query ? (
+            <div className="text-center py-8 text-muted-foreground text-sm">
+              <Search className="h-8 w-8 mx-auto mb-2 opacity-50" />
+              <p>Sin resultados</p>
+              <p className="text-xs mt-1">Ninguna conversacion coincide con &quot;{query}&quot;</p>
+            </div>
           ) : conversations.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground text-sm">
               <MessageSquare className="h-8 w-8 mx-auto mb-2 opacity-50" />
@@ -173,71 +406,116 @@ export function ConversationsSidebar({
               <p className="text-xs mt-1">Haz una pregunta para comenzar</p>
             </div>
           ) : (
-            conversations.map((conv) => (
-              <div
-                key={conv.id}
-                className={cn(
-                  'group relative rounded-lg transition-colors cursor-pointer',
-                  selectedId === conv.id
-                    ? 'bg-primary/10 text-primary'
-                    : 'hover:bg-muted'
-                )}
-              >
-                <button
-                  onClick={() => onSelect(conv.id)}
-                  className="w-full text-left p-2 pr-8"
-                >
-                  <div className="flex items-start gap-2">
-                    <MessageSquare className="h-4 w-4 mt-0.5 shrink-0 opacity-60" />
-                    <div className="min-w-0 flex-1">
-                      <p className="text-sm font-medium truncate">
-                        {conv.title}
-                      </p>
-                      <div className="flex items-center gap-2 text-xs text-muted-foreground mt-0.5">
-                        <span>{formatDate(conv.updatedAt)}</span>
-                        {conv.messageCount > 0 && (
-                          <span>{conv.messageCount} msgs</span>
+            groupByDate(conversations).map(({ group, conversations: items }) => (
+              <div key={group} className="space-y-1">
+                <p className="px-2 pt-2 pb-1 text-xs font-medium text-muted-foreground">
+                  {dateGroupLabels[group]}
+                </p>
+                {items.map((conv) => (
+                  <div
+                    key={conv.id}
+                    className={cn(
+                      'group relative rounded-lg transition-colors cursor-pointer',
+                      selectedId === conv.id
+                        ? 'bg-primary/10 text-primary'
+                        : 'hover:bg-muted'
+                    )}
+                  >
+                    {editingId === conv.id ? (
+                      <div className="flex items-start gap-2 p-2">
+                        <MessageSquare className="h-4 w-4 mt-2 shrink-0 opacity-60" />
+                        <Input
+                          value={editTitle}
+                          onChange={(e) => setEditTitle(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') e.currentTarget.blur()
+                            if (e.key === 'Escape') {
+                              cancelledRenameRef.current = true
+                              cancelRename()
+                            }
+                          }}
+                          onBlur={handleRename}
+                          maxLength={200}
+                          className="h-8 text-sm"
+                          aria-label="Titulo de la conversacion"
+                          autoFocus
+                        />
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() => onSelect(conv.id)}
+                        onDoubleClick={() => startRename(conv)}
+                        className="w-full text-left p-2 pr-8"
+                      >
+                        <div className="flex items-start gap-2">
+                          <MessageSquare className="h-4 w-4 mt-0.5 shrink-0 opacity-60" />
+                          <div className="min-w-0 flex-1">
+                            <p className={cn('text-sm font-medium truncate', !conv.title && 'italic text-muted-foreground')}>
+                              {conv.title || 'Sin titulo'}
+                            </p>
+                            <div className="flex items-center gap-2 text-xs text-muted-foreground mt-0.5">
+                              <span>{formatDate(conv.updatedAt)}</span>
+                              {conv.messageCount > 0 && (
+                                <span>{conv.messageCount} msgs</span>
+                              )}
+                              {formatCost(conv.totalCostUsd) && (
+                                <span className="flex items-center gap-0.5">
+                                  <Coins className="h-3 w-3" />
+                                  {formatCost(conv.totalCostUsd)}
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+                      </button>
+                    )}
+
+                    {/* Actions Menu */}
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="absolute right-1 top-1 h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+                          aria-label="Opciones de conversacion"
+                        >
+                          <MoreHorizontal className="h-3 w-3" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => startRename(conv)}>
+                          <PenLine className="h-4 w-4 mr-2" />
+                          Renombrar
+                        </DropdownMenuItem>
+                        {!conv.title && (
+                          <DropdownMenuItem onClick={() => handleAutoTitle(conv.id)}>
+                            <Sparkles className="h-4 w-4 mr-2" />
+                            Titulo automatico
+                          </DropdownMenuItem>
                         )}
-                        {formatCost(conv.totalCostUsd) && (
-                          <span className="flex items-center gap-0.5">
-                            <Coins className="h-3 w-3" />
-                            {formatCost(conv.totalCostUsd)}
-                          </span>
+                        {canDelete && (
+                          <DropdownMenuItem
+                            onClick={() => setDeleteId(conv.id)}
+                            className="text-destructive focus:text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Eliminar
+                          </DropdownMenuItem>
                         )}
-                      </div>
-                    </div>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   </div>
-                </button>
-
-                {/* Actions Menu */}
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="absolute right-1 top-1 h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
-                      aria-label="Opciones de conversacion"
-                    >
-                      <MoreHorizontal className="h-3 w-3" />
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end">
-                    <DropdownMenuItem disabled>
-                      <PenLine className="h-4 w-4 mr-2" />
-                      Renombrar
-                    </DropdownMenuItem>
-                    <DropdownMenuItem
-                      onClick={() => setDeleteId(conv.id)}
-                      className="text-destructive focus:text-destructive"
-                    >
-                      <Trash2 className="h-4 w-4 mr-2" />
-                      Eliminar
-                    </DropdownMenuItem>
-                  </DropdownMenuContent>
-                </DropdownMenu>
+                ))}
               </div>
             ))
           )}
+
+          {/* Infinite scroll sentinel */}
+          {hasMore && (
+            <div ref={sentinelRef} className="flex justify-center py-2">
+              {isLoadingMore && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </div>
+          )}
         </div>
       </ScrollArea>
 
@@ -0,0 +1,197 @@
+'use client'
+
+import { useRef } from 'react'
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  PieChart,
+  Pie,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from 'recharts'
+import { Button } from '@/components/ui/button'
+import { toChartData, toNumber, type ChartSpec, type ResultRow } from '@/lib/chart'
+import { downloadBlob } from '@/lib/utils'
+import { Download } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface ResultChartProps {
+  rows: ResultRow[]
+  spec: ChartSpec
+  filename?: string
+}
+
+const CHART_COLORS = [
+  'var(--chart-1)',
+  'var(--chart-2)',
+  'var(--chart-3)',
+  'var(--chart-4)',
+  'var(--chart-5)',
+]
+
+const formatNumber = (value: number) => value.toLocaleString('es-MX')
+
+export function ResultChart({ rows, spec, filename = 'grafica' }: ResultChartProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  if (spec.type === 'kpi') {
+    const value = toNumber(rows[0]?.[spec.valueKeys[0]])
+    const label = spec.categoryKey ? String(rows[0]?.[spec.categoryKey] ?? '') : spec.valueKeys[0]
+    return (
+      <div className="text-center py-6">
+        <div className="text-4xl font-bold text-primary">
+          {value !== null ? formatNumber(value) : '-'}
+        </div>
+        <div className="text-sm text-muted-foreground mt-1">{label}</div>
+      </div>
+    )
+  }
+
+  const data = toChartData(rows, spec)
+  const { categoryKey = '', valueKeys } = spec
+
+  const getSvg = () => containerRef.current?.querySelector<SVGSVGElement>('svg.recharts-surface') ?? null
+
+  const handleDownloadSvg = () => {
+    const svg = getSvg()
+    if (!svg) return
+    downloadBlob(new Blob([serializeSvg(svg)], { type: 'image/svg+xml;charset=utf-8' }), `${filename}.svg`)
+  }
+
+  const handleDownloadPng = async () => {
+    const svg = getSvg()
+    if (!svg) return
+    try {
+      const blob = await svgToPng(svg)
+      downloadBlob(blob, `${filename}.png`)
+    } catch (error) {
+      console.error('PNG export error:', error)
+      toast.error('No se pudo exportar la grafica')
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div ref={containerRef} className="h-64 w-full px-2 pt-2">
+        <ResponsiveContainer width="100%" height="100%">
+          {spec.type === 'line' ? (
+            <LineChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis dataKey={categoryKey} tick={{ fontSize: 11 }} />
+              <YAxis tick={{ fontSize: 11 }} tickFormatter={formatNumber} width={70} />
+              <Tooltip formatter={(value) => formatNumber(Number(value))} />
+              {valueKeys.length > 1 && <Legend />}
+              {valueKeys.map((key, i) => (
+                <Line
+                  key={key}
+                  type="monotone"
+                  dataKey={key}
+                  stroke={CHART_COLORS[i % CHART_COLORS.length]}
+                  strokeWidth={2}
+                  dot={data.length <= 31}
+                />
+              ))}
+            </LineChart>
+          ) : spec.type === 'bar' ? (
+            <BarChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis dataKey={categoryKey} tick={{ fontSize: 11 }} />
+              <YAxis tick={{ fontSize: 11 }} tickFormatter={formatNumber} width={70} />
+              <Tooltip formatter={(value) => formatNumber(Number(value))} />
+              {valueKeys.length > 1 && <Legend />}
+              {valueKeys.map((key, i) => (
+                <Bar key={key} dataKey={key} fill={CHART_COLORS[i % CHART_COLORS.length]} />
+              ))}
+            </BarChart>
+          ) : (
+            <PieChart>
+              <Tooltip formatter={(value) => formatNumber(Number(value))} />
+              <Legend />
+              <Pie data={data} dataKey={valueKeys[0]} nameKey={categoryKey} outerRadius={80} label>
+                {data.map((_, i) => (
+                  <Cell key={i} fill={CHART_COLORS[i % CHART_COLORS.length]} />
+                ))}
+              </Pie>
+            </PieChart>
+          )}
+        </ResponsiveContainer>
+      </div>
+      <div className="flex justify-end gap-1 px-2 pb-2">
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleDownloadPng}>
+          <Download className="h-3 w-3 mr-1" />
+          PNG
+        </Button>
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleDownloadSvg}>
+          <Download className="h-3 w-3 mr-1" />
+          SVG
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+// Inline computed colors so the exported file doesn't depend on the page's CSS variables
+function serializeSvg(svg: SVGSVGElement): string {
+  const clone = svg.cloneNode(true) as SVGSVGElement
+  const originals = svg.querySelectorAll<SVGElement>('*')
+  const copies = clone.querySelectorAll<SVGElement>('*')
+
+  originals.forEach((original, i) => {
+    const computed = getComputedStyle(original)
+    const copy = copies[i]
+    copy.setAttribute('fill', computed.fill)
+    copy.setAttribute('stroke', computed.stroke)
+    if (original.tagName === 'text') {
+      copy.setAttribute('font-family', computed.fontFamily)
+      copy.setAttribute('font-size', computed.fontSize)
+    }
+  })
+
+  const { width, height } = svg.getBoundingClientRect()
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg')
+  clone.setAttribute('width', String(width))
+  clone.setAttribute('height', String(height))
+
+  return new XMLSerializer().serializeToString(clone)
+}
+
+function svgToPng(svg: SVGSVGElement): Promise<Blob> {
+  const { width, height } = svg.getBoundingClientRect()
+  const scale = window.devicePixelRatio || 1
+  const url = URL.createObjectURL(
+    new Blob([serializeSvg(svg)], { type: 'image/svg+xml;charset=utf-8' })
+  )
+
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => {
+      const canvas = document.createElement('canvas')
+      canvas.width = width * scale
+      canvas.height = height * scale
+      const context = canvas.getContext('2d')
+      if (!context) {
+        URL.revokeObjectURL(url)
+        reject(new Error('Canvas not supported'))
+        return
+      }
+      context.fillStyle = getComputedStyle(document.body).backgroundColor
+      context.fillRect(0, 0, canvas.width, canvas.height)
+      context.scale(scale, scale)
+      context.drawImage(image, 0, 0, width, height)
+      URL.revokeObjectURL(url)
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG export failed'))), 'image/png')
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('Could not render SVG'))
+    }
+    image.src = url
+  })
+}
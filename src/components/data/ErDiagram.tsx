@@ -0,0 +1,206 @@
+'use client'
+
+import type { DataSourceSchema, SchemaColumn } from '@/lib/api'
+
+interface ErDiagramProps {
+  schema: DataSourceSchema
+  highlight?: string
+}
+
+const BOX_WIDTH = 220
+const HEADER_HEIGHT = 30
+const ROW_HEIGHT = 22
+const GAP_X = 120
+const GAP_Y = 60
+const MAX_VISIBLE_COLUMNS = 8
+// How far same-side lines bulge out; stays inside the gap between columns
+const LOOP_CURVE = 60
+
+interface TableBox {
+  name: string
+  x: number
+  y: number
+  height: number
+  columns: SchemaColumn[]
+  hiddenCount: number
+}
+
+// Key and related columns first so relationship lines have somewhere to attach
+function visibleColumns(table: string, columns: SchemaColumn[], related: Set<string>) {
+  const isKey = (col: SchemaColumn) =>
+    col.isPrimaryKey || col.isForeignKey || related.has(`${table}.${col.name}`)
+  const ordered = [...columns.filter(isKey), ...columns.filter((col) => !isKey(col))]
+  return ordered.slice(0, Math.max(MAX_VISIBLE_COLUMNS, columns.filter(isKey).length))
+}
+
+function layoutTables(schema: DataSourceSchema): TableBox[] {
+  const related = new Set(
+    schema.relationships.flatMap((rel) => [`${rel.fromTable}.${rel.fromColumn}`, `${rel.toTable}.${rel.toColumn}`])
+  )
+  const entries = Object.entries(schema.schema)
+  const perRow = Math.max(1, Math.ceil(Math.sqrt(entries.length)))
+
+  const boxes: TableBox[] = []
+  let rowTop = 0
+  for (let start = 0; start < entries.length; start += perRow) {
+    const rowBoxes = entries.slice(start, start + perRow).map(([name, columns], i) => {
+      const shown = visibleColumns(name, columns, related)
+      const hiddenCount = columns.length - shown.length
+      return {
+        name,
+        x: i * (BOX_WIDTH + GAP_X),
+        y: rowTop,
+        height: HEADER_HEIGHT + (shown.length + (hiddenCount > 0 ? 1 : 0)) * ROW_HEIGHT,
+        columns: shown,
+        hiddenCount,
+      }
+    })
+    boxes.push(...rowBoxes)
+    rowTop += Math.max(...rowBoxes.map((box) => box.height)) + GAP_Y
+  }
+  return boxes
+}
+
+function columnAnchorY(box: TableBox, column: string) {
+  const index = box.columns.findIndex((col) => col.name === column)
+  const row = index === -1 ? 0 : index
+  return box.y + HEADER_HEIGHT + row * ROW_HEIGHT + ROW_HEIGHT / 2
+}
+
+// Sides a relationship line leaves and enters by. Boxes in different columns
+// face each other; boxes in the same column (or a table pointing at itself)
+// both use the right side and loop through the gap, so the line never crosses
+// a box.
+function lineEnds(from: TableBox, to: TableBox) {
+  const sameColumn = Math.abs(from.x - to.x) < BOX_WIDTH
+  if (sameColumn) {
+    const x1 = from.x + BOX_WIDTH
+    const x2 = to.x + BOX_WIDTH
+    return { x1, x2, c1: x1 + LOOP_CURVE, c2: x2 + LOOP_CURVE }
+  }
+
+  const fromLeft = from.x < to.x
+  const x1 = fromLeft ? from.x + BOX_WIDTH : from.x
+  const x2 = fromLeft ? to.x : to.x + BOX_WIDTH
+  const curve = Math.max(40, Math.abs(x2 - x1) / 2)
+  return { x1, x2, c1: fromLeft ? x1 + curve : x1 - curve, c2: fromLeft ? x2 - curve : x2 + curve }
+}
+
+export function ErDiagram({ schema, highlight = '' }: ErDiagramProps) {
+  const boxes = layoutTables(schema)
+  const byName = new Map(boxes.map((box) => [box.name, box]))
+  const piiColumns = new Set(schema.piiColumns.map((pii) => `${pii.table}.${pii.column}`))
+  const query = highlight.trim().toLowerCase()
+
+  if (boxes.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground text-sm">
+        No hay tablas en esta fuente de datos.
+      </div>
+    )
+  }
+
+  // Room on the right for lines looping out of the last column
+  const width = Math.max(...boxes.map((box) => box.x + BOX_WIDTH)) + LOOP_CURVE
+  const height = Math.max(...boxes.map((box) => box.y + box.height)) + 20
+
+  return (
+    <div className="overflow-auto border rounded-lg bg-card">
+      <svg width={width} height={height} viewBox={`-10 -10 ${width} ${height}`} className="text-foreground">
+        {/* Relationship lines */}
+        {schema.relationships.map((rel, i) => {
+          const from = byName.get(rel.fromTable)
+          const to = byName.get(rel.toTable)
+          if (!from || !to) return null
+
+          const { x1, x2, c1, c2 } = lineEnds(from, to)
+          const y1 = columnAnchorY(from, rel.fromColumn)
+          const y2 = columnAnchorY(to, rel.toColumn)
+
+          return (
+            <g key={i}>
+              <path
+                d={`M ${x1} ${y1} C ${c1} ${y1}, ${c2} ${y2}, ${x2} ${y2}`}
+                fill="none"
+                stroke="var(--primary)"
+                strokeWidth={1.5}
+                opacity={rel.confidence !== undefined && rel.confidence < 0.7 ? 0.4 : 0.8}
+              />
+              <circle cx={x2} cy={y2} r={3} fill="var(--primary)" />
+              {rel.type && (
+                <text
+                  x={(x1 + 3 * c1 + 3 * c2 + x2) / 8}
+                  y={(y1 + y2) / 2 - 4}
+                  textAnchor="middle"
+                  fontSize={10}
+                  fill="var(--muted-foreground)"
+                >
+                  {rel.type}
+                </text>
+              )}
+            </g>
+          )
+        })}
+
+        {/* Tables */}
+        {boxes.map((box) => {
+          const isMatch = query !== '' && box.name.toLowerCase().includes(query)
+          return (
+            <g key={box.name} transform={`translate(${box.x}, ${box.y})`}>
+              <rect
+                width={BOX_WIDTH}
+                height={box.height}
+                rx={6}
+                fill="var(--card)"
+                stroke={isMatch ? 'var(--primary)' : 'var(--border)'}
+                strokeWidth={isMatch ? 2 : 1}
+              />
+              <rect width={BOX_WIDTH} height={HEADER_HEIGHT} rx={6} fill="var(--muted)" />
+              <text x={10} y={20} fontSize={13} fontWeight={600} fill="currentColor">
+                {box.name}
+              </text>
+              {box.columns.map((col, i) => {
+                const isPii = piiColumns.has(`${box.name}.${col.name}`)
+                const columnMatch = query !== '' && col.name.toLowerCase().includes(query)
+                return (
+                  <g key={col.name} transform={`translate(0, ${HEADER_HEIGHT + i * ROW_HEIGHT})`}>
+                    {columnMatch && (
+                      <rect width={BOX_WIDTH} height={ROW_HEIGHT} fill="var(--primary)" opacity={0.1} />
+                    )}
+                    <text x={10} y={15} fontSize={11} fontFamily="monospace" fill="currentColor">
+                      {(col.isPrimaryKey || col.isForeignKey) && (
+                        <tspan fill="var(--primary)" fontWeight={600}>
+                          {col.isPrimaryKey ? 'PK ' : 'FK '}
+                        </tspan>
+                      )}
+                      {col.name}
+                    </text>
+                    <text
+                      x={BOX_WIDTH - 10}
+                      y={15}
+                      fontSize={10}
+                      textAnchor="end"
+                      fill={isPii ? 'var(--color-amber-600, #d97706)' : 'var(--muted-foreground)'}
+                    >
+                      {isPii ? 'PII' : col.type}
+                    </text>
+                  </g>
+                )
+              })}
+              {box.hiddenCount > 0 && (
+                <text
+                  x={10}
+                  y={HEADER_HEIGHT + box.columns.length * ROW_HEIGHT + 15}
+                  fontSize={10}
+                  fill="var(--muted-foreground)"
+                >
+                  +{box.hiddenCount} columnas más
+                </text>
+              )}
+            </g>
+          )
+        })}
+      </svg>
+    </div>
+  )
+}
@@ -0,0 +1,143 @@
+'use client'
+
+import { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { ChevronDown, ChevronRight, Table2, ShieldAlert, KeyRound, Link2 } from 'lucide-react'
+import type { DataSourceSchema, SchemaColumn } from '@/lib/api'
+
+interface SchemaTreeProps {
+  schema: DataSourceSchema
+  search: string
+}
+
+const semanticTypeLabels: Record<string, string> = {
+  identifier: 'ID',
+  text: 'Texto',
+  date: 'Fecha',
+  datetime: 'Fecha/Hora',
+  currency: 'Dinero',
+  number: 'Número',
+  percentage: 'Porcentaje',
+  email: 'Email',
+  phone: 'Teléfono',
+  boolean: 'Sí/No',
+}
+
+export function piiKey(table: string, column: string) {
+  return `${table}.${column}`
+}
+
+function matches(text: string, query: string) {
+  return text.toLowerCase().includes(query)
+}
+
+export function SchemaTree({ schema, search }: SchemaTreeProps) {
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({})
+  const query = search.trim().toLowerCase()
+
+  const piiColumns = new Map(schema.piiColumns.map((pii) => [piiKey(pii.table, pii.column), pii]))
+
+  // Keep tables whose name matches, or that contain matching columns
+  const tables = Object.entries(schema.schema)
+    .map(([table, columns]) => {
+      if (!query || matches(table, query)) return { table, columns, matchedColumns: columns }
+      const matchedColumns = columns.filter(
+        (col) => matches(col.name, query) || matches(col.semanticType || '', query)
+      )
+      return { table, columns, matchedColumns }
+    })
+    .filter(({ table, matchedColumns }) => !query || matches(table, query) || matchedColumns.length > 0)
+
+  const toggle = (table: string) => {
+    setExpanded((prev) => ({ ...prev, [table]: !prev[table] }))
+  }
+
+  if (tables.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground text-sm">
+        No se encontraron tablas o columnas para &quot;{search}&quot;
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      {tables.map(({ table, columns, matchedColumns }) => {
+        // While searching, open tables so matching columns are visible
+        const isOpen = expanded[table] ?? Boolean(query)
+        const piiCount = columns.filter((col) => piiColumns.has(piiKey(table, col.name))).length
+
+        return (
+          <div key={table} className="border rounded-lg bg-card">
+            <button
+              type="button"
+              onClick={() => toggle(table)}
+              className="w-full flex items-center gap-2 p-3 text-left hover:bg-muted/50 rounded-lg"
+            >
+              {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+              <Table2 className="h-4 w-4 text-primary" />
+              <span className="font-medium">{table}</span>
+              <span className="text-xs text-muted-foreground">{columns.length} columnas</span>
+              {piiCount > 0 && (
+                <Badge variant="outline" className="ml-auto gap-1 text-amber-600 border-amber-500/40">
+                  <ShieldAlert className="h-3 w-3" />
+                  {piiCount} PII
+                </Badge>
+              )}
+            </button>
+
+            {isOpen && (
+              <div className="border-t divide-y">
+                {(query ? matchedColumns : columns).map((col) => (
+                  <ColumnRow
+                    key={col.name}
+                    column={col}
+                    piiType={piiColumns.get(piiKey(table, col.name))?.piiType}
+                    isPii={piiColumns.has(piiKey(table, col.name))}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+function ColumnRow({ column, isPii, piiType }: { column: SchemaColumn; isPii: boolean; piiType?: string }) {
+  return (
+    <div className="flex items-center gap-2 px-3 py-2 pl-10 text-sm">
+      <span className="font-mono">{column.name}</span>
+      {column.isPrimaryKey && (
+        <Badge className="gap-1">
+          <KeyRound className="h-3 w-3" />
+          PK
+        </Badge>
+      )}
+      {column.isForeignKey && (
+        <Badge variant="outline" className="gap-1">
+          <Link2 className="h-3 w-3" />
+          FK
+        </Badge>
+      )}
+      {isPii && (
+        <Badge variant="outline" className="gap-1 text-amber-600 border-amber-500/40">
+          <ShieldAlert className="h-3 w-3" />
+          {piiType || 'PII'}
+        </Badge>
+      )}
+      <div className="ml-auto flex items-center gap-2">
+        {column.semanticType && (
+          <Badge variant="secondary">
+            {semanticTypeLabels[column.semanticType] || column.semanticType}
+          </Badge>
+        )}
+        <span className="text-xs text-muted-foreground font-mono">
+          {column.type}
+          {column.nullable === false && ' NOT NULL'}
+        </span>
+      </div>
+    </div>
+  )
+}
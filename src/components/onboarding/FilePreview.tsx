@@ -0,0 +1,117 @@
+'use client'
+
+import { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { delimiterLabels, type FileInspection, type PreviewCell } from '@/lib/file-inspection'
+import { cn } from '@/lib/utils'
+import { ChevronDown, ChevronRight } from 'lucide-react'
+
+interface FilePreviewProps {
+  inspection: FileInspection
+  selectedSheets: string[]
+  onToggleSheet: (sheet: string) => void
+}
+
+const sheetErrorLabels = {
+  empty: 'Vacía',
+  no_headers: 'Sin encabezados',
+}
+
+const formatCell = (value: PreviewCell) => (value === null ? '' : String(value))
+
+// Detected format, sheet picker and the first rows of a CSV or workbook
+export function FilePreview({ inspection, selectedSheets, onToggleSheet }: FilePreviewProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [previewSheet, setPreviewSheet] = useState(inspection.sheets[0]?.name)
+  const sheet = inspection.sheets.find((s) => s.name === previewSheet)
+
+  if (inspection.sheets.length === 0) {
+    return inspection.kind === 'excel' ? (
+      <p className="text-xs text-muted-foreground">
+        Archivo demasiado grande para la vista previa. Se analizará al subirlo.
+      </p>
+    ) : null
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {inspection.encoding && <Badge variant="outline">{inspection.encoding}</Badge>}
+        {inspection.delimiter && (
+          <Badge variant="outline">Separador: {delimiterLabels[inspection.delimiter] || inspection.delimiter}</Badge>
+        )}
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-1 text-primary hover:underline"
+        >
+          {isOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+          Vista previa
+        </button>
+      </div>
+
+      {/* Sheet picker */}
+      {inspection.kind === 'excel' && (
+        <div className="space-y-1">
+          {inspection.sheets.map((s) => (
+            <label key={s.name} className="flex items-center gap-2 text-xs">
+              <input
+                type="checkbox"
+                checked={selectedSheets.includes(s.name)}
+                onChange={() => onToggleSheet(s.name)}
+                disabled={!!s.errorType}
+                className="accent-primary"
+              />
+              <button
+                type="button"
+                onClick={() => {
+                  setPreviewSheet(s.name)
+                  setIsOpen(true)
+                }}
+                className={cn('hover:underline', s.name === previewSheet && isOpen && 'font-medium')}
+              >
+                {s.name}
+              </button>
+              {s.errorType ? (
+                <span className="text-destructive">{sheetErrorLabels[s.errorType]}</span>
+              ) : (
+                s.rowCount !== undefined && <span className="text-muted-foreground">{s.rowCount} filas</span>
+              )}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {isOpen && sheet && (
+        <div className="rounded-md border bg-background overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {sheet.headers.map((header, i) => (
+                  <TableHead key={i} className="text-xs whitespace-nowrap">
+                    {header || <span className="italic text-muted-foreground">(sin nombre)</span>}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sheet.rows.map((row, i) => (
+                <TableRow key={i}>
+                  {sheet.headers.map((header, j) => (
+                    <TableCell key={`${header}-${j}`} className="text-xs whitespace-nowrap max-w-48 truncate">
+                      {formatCell(row[j] ?? null)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {sheet.rows.length === 0 && (
+            <p className="p-3 text-center text-xs text-muted-foreground">Sin filas de datos</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
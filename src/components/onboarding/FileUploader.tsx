@@ -5,12 +5,19 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
-import { FolderOpen, FileSpreadsheet, FileText, FileType, X } from 'lucide-react'
+import { fileKey, type FileUploadState, type SheetSelection } from '@/lib/uploads'
+import { inspectFile, type FileInspection } from '@/lib/file-inspection'
+import { FilePreview } from './FilePreview'
+import { FolderOpen, FileSpreadsheet, FileText, FileType, X, Pause, Play, RotateCcw, CheckCircle2, AlertCircle, Loader2 } from 'lucide-react'
 
 interface FileUploaderProps {
-  onFilesSelected: (files: File[]) => void
+  onFilesSelected: (files: File[], sheets: SheetSelection) => void
   isUploading?: boolean
-  uploadProgress?: number
+  // Per-file progress keyed by fileKey(), from useFileUploads
+  uploads?: Record<string, FileUploadState>
+  onPauseFile?: (key: string) => void
+  onResumeFile?: (key: string) => void
+  onCancelFile?: (file: File) => void
 }
 
 const ACCEPTED_TYPES = [
@@ -22,12 +29,22 @@ const ACCEPTED_TYPES = [
   'application/msword', // doc
 ]
 
-const ACCEPTED_EXTENSIONS = ['.xlsx', '.xls', '.csv', '.pdf', '.docx', '.doc']
+export const ACCEPTED_EXTENSIONS = ['.xlsx', '.xls', '.csv', '.pdf', '.docx', '.doc']
 
-export function FileUploader({ onFilesSelected, isUploading, uploadProgress }: FileUploaderProps) {
+export function FileUploader({
+  onFilesSelected,
+  isUploading,
+  uploads = {},
+  onPauseFile,
+  onResumeFile,
+  onCancelFile,
+}: FileUploaderProps) {
   const [files, setFiles] = useState<File[]>([])
   const [isDragging, setIsDragging] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  // Headers, first rows and problems found before uploading, per fileKey()
+  const [inspections, setInspections] = useState<Record<string, FileInspection>>({})
+  const [sheets, setSheets] = useState<SheetSelection>({})
 
   const validateFile = (file: File): boolean => {
     const ext = '.' + file.name.split('.').pop()?.toLowerCase()
@@ -54,6 +71,20 @@ export function FileUploader({ onFilesSelected, isUploading, uploadProgress }: F
     if (validFiles.length > 0) {
       setFiles((prev) => [...prev, ...validFiles])
     }
+
+    validFiles.forEach((file) => {
+      inspectFile(file).then((inspection) => {
+        const key = fileKey(file)
+        setInspections((prev) => ({ ...prev, [key]: inspection }))
+        // Every usable sheet is included until the user says otherwise
+        if (inspection.kind === 'excel' && inspection.sheets.length > 0) {
+          setSheets((prev) => ({
+            ...prev,
+            [key]: inspection.sheets.filter((sheet) => !sheet.errorType).map((sheet) => sheet.name),
+          }))
+        }
+      })
+    })
   }, [files])
 
   const handleDrop = useCallback((e: React.DragEvent) => {
@@ -76,9 +107,40 @@ export function FileUploader({ onFilesSelected, isUploading, uploadProgress }: F
     setFiles((prev) => prev.filter((_, i) => i !== index))
   }
 
+  const cancelFile = (file: File, index: number) => {
+    onCancelFile?.(file)
+    removeFile(index)
+  }
+
+  const toggleSheet = (file: File, sheet: string) => {
+    const key = fileKey(file)
+    setSheets((prev) => {
+      const selected = prev[key] || []
+      return {
+        ...prev,
+        [key]: selected.includes(sheet) ? selected.filter((s) => s !== sheet) : [...selected, sheet],
+      }
+    })
+  }
+
+  // Files still being read, with problems, or with every sheet unchecked hold
+  // back the upload
+  const isInspecting = files.some((file) => !inspections[fileKey(file)])
+  const blockedFiles = files.filter((file) => {
+    const key = fileKey(file)
+    const inspection = inspections[key]
+    if (!inspection) return false
+    return inspection.issues.length > 0 || (sheets[key] !== undefined && sheets[key].length === 0)
+  })
+
   const handleSubmit = () => {
-    if (files.length > 0) {
-      onFilesSelected(files)
+    if (files.length > 0 && !isInspecting && blockedFiles.length === 0) {
+      const selection: SheetSelection = {}
+      files.forEach((file) => {
+        const key = fileKey(file)
+        if (sheets[key]) selection[key] = sheets[key]
+      })
+      onFilesSelected(files, selection)
     }
   }
 
@@ -160,53 +222,128 @@ export function FileUploader({ onFilesSelected, isUploading, uploadProgress }: F
           <div className="space-y-2">
             <h4 className="font-medium text-sm">Archivos seleccionados ({files.length})</h4>
             <div className="space-y-2">
-              {files.map((file, index) => (
-                <div
-                  key={`${file.name}-${index}`}
-                  className="flex items-center justify-between p-3 bg-muted rounded-md"
-                >
-                  <div className="flex items-center gap-3">
-                    <div className="rounded-lg bg-primary/10 p-2">
-                      {getFileIcon(file.name)}
-                    </div>
-                    <div>
-                      <p className="font-medium text-sm">{file.name}</p>
-                      <p className="text-xs text-muted-foreground">
-                        {formatFileSize(file.size)}
-                      </p>
+              {files.map((file, index) => {
+                const upload = uploads[fileKey(file)]
+                const inspection = inspections[fileKey(file)]
+                const percentage = upload && upload.totalBytes > 0
+                  ? Math.round((upload.uploadedBytes / upload.totalBytes) * 100)
+                  : 0
+
+                return (
+                  <div
+                    key={`${file.name}-${index}`}
+                    className="p-3 bg-muted rounded-md space-y-2"
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3 min-w-0">
+                        <div className="rounded-lg bg-primary/10 p-2">
+                          {getFileIcon(file.name)}
+                        </div>
+                        <div className="min-w-0">
+                          <p className="font-medium text-sm truncate">{file.name}</p>
+                          <p className="text-xs text-muted-foreground flex items-center gap-1">
+                            {!inspection && <Loader2 className="h-3 w-3 animate-spin" />}
+                            {upload && upload.status !== 'done'
+                              ? `${formatFileSize(upload.uploadedBytes)} de ${formatFileSize(file.size)}`
+                              : formatFileSize(file.size)}
+                            {upload?.status === 'paused' && ' · En pausa'}
+                          </p>
+                        </div>
+                      </div>
+                      {upload ? (
+                        <div className="flex items-center gap-1 shrink-0">
+                          {upload.status === 'done' && <CheckCircle2 className="h-4 w-4 text-primary" />}
+                          {upload.status === 'uploading' && onPauseFile && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => onPauseFile(fileKey(file))}
+                              aria-label="Pausar"
+                            >
+                              <Pause className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {(upload.status === 'paused' || upload.status === 'error') && onResumeFile && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => onResumeFile(fileKey(file))}
+                              aria-label={upload.status === 'error' ? 'Reintentar' : 'Reanudar'}
+                            >
+                              {upload.status === 'error' ? <RotateCcw className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                            </Button>
+                          )}
+                          {upload.status !== 'done' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => cancelFile(file, index)}
+                              aria-label="Cancelar subida"
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      ) : !isUploading && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeFile(index)}
+                          aria-label="Eliminar archivo"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
+
+                    {/* Pre-upload checks */}
+                    {inspection && !upload && (
+                      inspection.issues.length > 0 ? (
+                        inspection.issues.map((issue) => (
+                          <div key={issue.errorType} className="flex items-start gap-2 text-xs text-destructive">
+                            <AlertCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                            <span>
+                              {issue.message}. <span className="text-muted-foreground">{issue.suggestion}</span>
+                            </span>
+                          </div>
+                        ))
+                      ) : (
+                        <FilePreview
+                          inspection={inspection}
+                          selectedSheets={sheets[fileKey(file)] || []}
+                          onToggleSheet={(sheet) => toggleSheet(file, sheet)}
+                        />
+                      )
+                    )}
+
+                    {/* Upload Progress */}
+                    {upload && upload.status !== 'done' && (
+                      <div className="space-y-1">
+                        <Progress value={percentage} />
+                        {upload.status === 'error' ? (
+                          <p className="text-xs text-destructive">{upload.error}</p>
+                        ) : (
+                          <p className="text-xs text-muted-foreground text-right">{percentage}%</p>
+                        )}
+                      </div>
+                    )}
                   </div>
-                  {!isUploading && (
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => removeFile(index)}
-                      aria-label="Eliminar archivo"
-                    >
-                      <X className="h-4 w-4" />
-                    </Button>
-                  )}
-                </div>
-              ))}
+                )
+              })}
             </div>
           </div>
         )}
 
-        {/* Upload Progress */}
-        {isUploading && uploadProgress !== undefined && (
-          <div className="space-y-2">
-            <div className="flex justify-between text-sm">
-              <span>Subiendo archivos...</span>
-              <span>{uploadProgress}%</span>
-            </div>
-            <Progress value={uploadProgress} />
-          </div>
+        {blockedFiles.length > 0 && !isUploading && (
+          <p className="text-sm text-destructive">
+            Quita o corrige {blockedFiles.length === 1 ? 'el archivo marcado' : `los ${blockedFiles.length} archivos marcados`} para continuar.
+          </p>
         )}
 
         {/* Submit Button */}
         <Button
           onClick={handleSubmit}
-          disabled={files.length === 0 || isUploading}
+          disabled={files.length === 0 || isUploading || isInspecting || blockedFiles.length > 0}
           className="w-full"
           size="lg"
         >
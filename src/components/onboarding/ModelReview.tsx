@@ -4,15 +4,23 @@ import { useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Separator } from '@/components/ui/separator'
-import type { ProposedModel, ProposedTable } from '@/lib/api'
+import { Pencil, Check, X, Plus, Trash2, Undo2 } from 'lucide-react'
+import {
+  RelationshipEditor,
+  countRelationshipEdits,
+  emptyRelationshipEdits,
+  relationshipTypeLabels,
+} from './RelationshipEditor'
+import type { ModelModifications, ProposedModel, ProposedTable, RelationshipEdits, RelationshipRef } from '@/lib/api'
 
 interface ModelReviewProps {
   model: ProposedModel
-  onConfirm: (modifications?: any) => void
+  onConfirm: (modifications?: ModelModifications) => void
   onCancel: () => void
   isConfirming?: boolean
 }
@@ -39,13 +47,136 @@ const semanticTypeColors: Record<string, string> = {
   text: 'bg-gray-100 text-gray-800',
 }
 
-function TableCard({ table }: { table: ProposedTable }) {
+interface Term {
+  term: string
+  meaning: string
+}
+
+export function columnKey(table: string, column: string) {
+  return `${table}.${column}`
+}
+
+// Inline name editor: click the pencil, Enter saves, Escape cancels
+function EditableName({
+  value,
+  original,
+  onSave,
+  validate,
+  className,
+}: {
+  value: string
+  original: string
+  onSave: (value: string) => void
+  validate?: (value: string) => string | null
+  className?: string
+}) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState(value)
+  const [error, setError] = useState<string | null>(null)
+
+  const startEditing = () => {
+    setDraft(value)
+    setError(null)
+    setIsEditing(true)
+  }
+
+  const save = () => {
+    const next = draft.trim()
+    if (!next) {
+      setError('El nombre no puede estar vacío')
+      return
+    }
+    const validationError = validate?.(next) ?? null
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+    onSave(next)
+    setIsEditing(false)
+  }
+
+  if (isEditing) {
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center gap-1">
+          <Input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') save()
+              if (e.key === 'Escape') setIsEditing(false)
+            }}
+            className="h-8 max-w-[220px]"
+            autoFocus
+          />
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={save} aria-label="Guardar nombre">
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setIsEditing(false)} aria-label="Cancelar">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-1 group/name">
+      <span className={className}>{value}</span>
+      {value !== original && (
+        <span className="text-xs text-muted-foreground line-through">{original}</span>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 opacity-50 group-hover/name:opacity-100"
+        onClick={startEditing}
+        aria-label={`Renombrar ${value}`}
+      >
+        <Pencil className="h-3 w-3" />
+      </Button>
+    </div>
+  )
+}
+
+interface TableCardProps {
+  table: ProposedTable
+  displayName: string
+  columnRenames: Record<string, string>
+  onRenameTable: (name: string) => void
+  onRenameColumn: (column: string, name: string) => void
+  validateTableName: (name: string) => string | null
+}
+
+function TableCard({
+  table,
+  displayName,
+  columnRenames,
+  onRenameTable,
+  onRenameColumn,
+  validateTableName,
+}: TableCardProps) {
+  const columnName = (column: string) => columnRenames[columnKey(table.name, column)] || column
+
+  const validateColumnName = (column: string) => (name: string) =>
+    table.columns.some((col) => col.name !== column && columnName(col.name) === name)
+      ? 'Ya existe una columna con ese nombre'
+      : null
+
   return (
     <Card>
       <CardHeader className="pb-3">
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
-            <CardTitle className="text-lg">{table.name}</CardTitle>
+            <CardTitle className="text-lg">
+              <EditableName
+                value={displayName}
+                original={table.name}
+                onSave={onRenameTable}
+                validate={validateTableName}
+              />
+            </CardTitle>
             {table.isMasterData ? (
               <Badge variant="secondary">Datos Maestros</Badge>
             ) : (
@@ -78,7 +209,14 @@ function TableCard({ table }: { table: ProposedTable }) {
           <TableBody>
             {table.columns.map((col) => (
               <TableRow key={col.name}>
-                <TableCell className="font-medium">{col.name}</TableCell>
+                <TableCell className="font-medium">
+                  <EditableName
+                    value={columnName(col.name)}
+                    original={col.name}
+                    onSave={(name) => onRenameColumn(col.name, name)}
+                    validate={validateColumnName(col.name)}
+                  />
+                </TableCell>
                 <TableCell>
                   <Badge
                     variant="secondary"
@@ -103,8 +241,185 @@ function TableCard({ table }: { table: ProposedTable }) {
   )
 }
 
+// Add, edit and remove business terms sent as additionalTerminology
+function TermEditor({
+  terms,
+  onChange,
+}: {
+  terms: Term[]
+  onChange: (terms: Term[]) => void
+}) {
+  const [newTerm, setNewTerm] = useState('')
+  const [newMeaning, setNewMeaning] = useState('')
+
+  const canAdd = newTerm.trim() !== '' && newMeaning.trim() !== ''
+    && !terms.some((t) => t.term.toLowerCase() === newTerm.trim().toLowerCase())
+
+  const addTerm = () => {
+    if (!canAdd) return
+    onChange([...terms, { term: newTerm.trim(), meaning: newMeaning.trim() }])
+    setNewTerm('')
+    setNewMeaning('')
+  }
+
+  const updateTerm = (index: number, field: keyof Term, value: string) => {
+    onChange(terms.map((t, i) => (i === index ? { ...t, [field]: value } : t)))
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Tus términos</CardTitle>
+        <CardDescription>
+          Agrega palabras propias de tu negocio para que el chatbot las entienda (ej. &quot;ticket&quot; = venta).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {terms.map((term, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <Input
+              value={term.term}
+              onChange={(e) => updateTerm(i, 'term', e.target.value)}
+              className="w-40"
+              aria-label="Término"
+            />
+            <Input
+              value={term.meaning}
+              onChange={(e) => updateTerm(i, 'meaning', e.target.value)}
+              className="flex-1"
+              aria-label="Significado"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(terms.filter((_, j) => j !== i))}
+              aria-label={`Eliminar ${term.term}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex items-center gap-2 pt-2 border-t">
+          <Input
+            placeholder="Término"
+            value={newTerm}
+            onChange={(e) => setNewTerm(e.target.value)}
+            className="w-40"
+          />
+          <Input
+            placeholder="Significado"
+            value={newMeaning}
+            onChange={(e) => setNewMeaning(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addTerm()}
+            className="flex-1"
+          />
+          <Button variant="outline" onClick={addTerm} disabled={!canAdd}>
+            <Plus className="h-4 w-4 mr-1" />
+            Agregar
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
 export function ModelReview({ model, onConfirm, onCancel, isConfirming }: ModelReviewProps) {
   const [activeTab, setActiveTab] = useState('tables')
+  const [tableRenames, setTableRenames] = useState<Record<string, string>>({})
+  const [columnRenames, setColumnRenames] = useState<Record<string, string>>({})
+  const [customTerms, setCustomTerms] = useState<Term[]>([])
+  const [removedTerms, setRemovedTerms] = useState<string[]>([])
+  const [relationshipEdits, setRelationshipEdits] = useState<RelationshipEdits>(emptyRelationshipEdits)
+
+  const tableName = (table: string) => tableRenames[table] || table
+
+  // Store only real changes; renaming back to the original drops the entry
+  const renameTable = (table: string, name: string) => {
+    setTableRenames((prev) => {
+      const next = { ...prev }
+      if (name === table) delete next[table]
+      else next[table] = name
+      return next
+    })
+  }
+
+  const renameColumn = (table: string, column: string, name: string) => {
+    const key = columnKey(table, column)
+    setColumnRenames((prev) => {
+      const next = { ...prev }
+      if (name === column) delete next[key]
+      else next[key] = name
+      return next
+    })
+  }
+
+  const validateTableName = (table: string) => (name: string) =>
+    model.tables.some((t) => t.name !== table && tableName(t.name) === name)
+      ? 'Ya existe una tabla con ese nombre'
+      : null
+
+  // Editing a detected term adds an override to the custom list
+  const editDetectedTerm = (term: string, meaning: string) => {
+    if (!customTerms.some((t) => t.term === term)) {
+      setCustomTerms([...customTerms, { term, meaning }])
+    }
+  }
+
+  // Rejecting a detected term also drops any pending edit of it
+  const removeDetectedTerm = (term: string) => {
+    setRemovedTerms([...removedTerms, term])
+    setCustomTerms(customTerms.filter((t) => t.term !== term))
+  }
+
+  // Re-adding a rejected term under its name replaces the rejection
+  const changeCustomTerms = (terms: Term[]) => {
+    setCustomTerms(terms)
+    setRemovedTerms(removedTerms.filter((removed) => !terms.some((t) => t.term.trim() === removed)))
+  }
+
+  const restoreDetectedTerm = (term: string) => {
+    setRemovedTerms(removedTerms.filter((t) => t !== term))
+  }
+
+  const detectedMeaning = (term: string) => model.terminology.find((d) => d.term === term)?.meaning
+
+  // Only real changes: a detected term saved with its original meaning is not one
+  const validTerms = customTerms.filter((t) =>
+    t.term.trim() && t.meaning.trim() && detectedMeaning(t.term.trim())?.trim() !== t.meaning.trim()
+  )
+  const addedTermCount = validTerms.filter((t) => detectedMeaning(t.term.trim()) === undefined).length
+  const hasChanges =
+    Object.keys(tableRenames).length > 0 ||
+    Object.keys(columnRenames).length > 0 ||
+    validTerms.length > 0 ||
+    removedTerms.length > 0 ||
+    countRelationshipEdits(relationshipEdits) > 0
+
+  const discardChanges = () => {
+    setTableRenames({})
+    setColumnRenames({})
+    setCustomTerms([])
+    setRemovedTerms([])
+    setRelationshipEdits(emptyRelationshipEdits)
+  }
+
+  const describeRelationship = (rel: RelationshipRef) =>
+    `${rel.fromTable}.${rel.fromColumn} → ${rel.toTable}.${rel.toColumn}`
+
+  const handleConfirm = () => {
+    if (!hasChanges) {
+      onConfirm()
+      return
+    }
+    onConfirm({
+      tableRenames,
+      columnRenames,
+      additionalTerminology: validTerms.map((t) => ({ term: t.term.trim(), meaning: t.meaning.trim() })),
+      removedTerminology: removedTerms.length > 0 ? removedTerms : undefined,
+      relationshipEdits: countRelationshipEdits(relationshipEdits) > 0 ? relationshipEdits : undefined,
+    })
+  }
 
   return (
     <div className="space-y-6 w-full max-w-4xl mx-auto">
@@ -159,67 +474,41 @@ export function ModelReview({ model, onConfirm, onCancel, isConfirming }: ModelR
             Tablas ({model.tables.length})
           </TabsTrigger>
           <TabsTrigger value="relationships">
-            Relaciones ({model.relationships.length})
+            Relaciones ({model.relationships.length - relationshipEdits.removed.length + relationshipEdits.added.length})
           </TabsTrigger>
           <TabsTrigger value="terminology">
-            Terminología ({model.terminology.length})
+            Terminología ({model.terminology.length - removedTerms.length + addedTermCount})
           </TabsTrigger>
         </TabsList>
 
         <TabsContent value="tables" className="space-y-4">
           {model.tables.map((table) => (
-            <TableCard key={table.name} table={table} />
+            <TableCard
+              key={table.name}
+              table={table}
+              displayName={tableName(table.name)}
+              columnRenames={columnRenames}
+              onRenameTable={(name) => renameTable(table.name, name)}
+              onRenameColumn={(column, name) => renameColumn(table.name, column, name)}
+              validateTableName={validateTableName(table.name)}
+            />
           ))}
         </TabsContent>
 
         <TabsContent value="relationships" className="space-y-4">
-          {model.relationships.length === 0 ? (
-            <Card>
-              <CardContent className="pt-6 text-center text-muted-foreground">
-                No se detectaron relaciones entre tablas.
-              </CardContent>
-            </Card>
-          ) : (
-            <Card>
-              <CardContent className="pt-6">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Desde</TableHead>
-                      <TableHead></TableHead>
-                      <TableHead>Hacia</TableHead>
-                      <TableHead>Tipo</TableHead>
-                      <TableHead className="text-right">Confianza</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {model.relationships.map((rel, i) => (
-                      <TableRow key={i}>
-                        <TableCell>
-                          <span className="font-medium">{rel.fromTable}</span>
-                          <span className="text-muted-foreground">.{rel.fromColumn}</span>
-                        </TableCell>
-                        <TableCell className="text-center">→</TableCell>
-                        <TableCell>
-                          <span className="font-medium">{rel.toTable}</span>
-                          <span className="text-muted-foreground">.{rel.toColumn}</span>
-                        </TableCell>
-                        <TableCell>
-                          <Badge variant="outline">{rel.type}</Badge>
-                        </TableCell>
-                        <TableCell className="text-right">
-                          {Math.round(rel.confidence * 100)}%
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </CardContent>
-            </Card>
-          )}
+          <RelationshipEditor
+            tables={model.tables}
+            relationships={model.relationships}
+            edits={relationshipEdits}
+            onChange={setRelationshipEdits}
+            displayTable={tableName}
+            displayColumn={(table, column) => columnRenames[columnKey(table, column)] || column}
+          />
         </TabsContent>
 
         <TabsContent value="terminology" className="space-y-4">
+          <TermEditor terms={customTerms} onChange={changeCustomTerms} />
+
           {model.terminology.length === 0 ? (
             <Card>
               <CardContent className="pt-6 text-center text-muted-foreground">
@@ -230,19 +519,59 @@ export function ModelReview({ model, onConfirm, onCancel, isConfirming }: ModelR
             <Card>
               <CardContent className="pt-6">
                 <div className="space-y-4">
-                  {model.terminology.map((term, i) => (
-                    <div key={i} className="flex items-start gap-4">
-                      <Badge variant="secondary" className="mt-0.5">
-                        {term.term}
-                      </Badge>
-                      <div>
-                        <p className="font-medium">{term.meaning}</p>
-                        <p className="text-sm text-muted-foreground">
-                          Encontrado en: {term.foundIn.join(', ')}
-                        </p>
+                  {model.terminology.map((term, i) => {
+                    const override = validTerms.find((t) => t.term.trim() === term.term)
+                    const isRemoved = removedTerms.includes(term.term)
+                    return (
+                      <div key={i} className="flex items-start gap-4">
+                        <Badge variant="secondary" className={`mt-0.5 ${isRemoved ? 'line-through opacity-60' : ''}`}>
+                          {term.term}
+                        </Badge>
+                        <div className="flex-1">
+                          <p className={`font-medium ${override || isRemoved ? 'line-through text-muted-foreground' : ''}`}>
+                            {term.meaning}
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            Encontrado en: {term.foundIn.join(', ')}
+                          </p>
+                        </div>
+                        {isRemoved ? (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => restoreDetectedTerm(term.term)}
+                            aria-label={`Restaurar ${term.term}`}
+                          >
+                            <Undo2 className="h-3 w-3" />
+                          </Button>
+                        ) : (
+                          <div className="flex gap-1">
+                            {!customTerms.some((t) => t.term === term.term) && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7"
+                                onClick={() => editDetectedTerm(term.term, term.meaning)}
+                                aria-label={`Editar ${term.term}`}
+                              >
+                                <Pencil className="h-3 w-3" />
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => removeDetectedTerm(term.term)}
+                              aria-label={`Eliminar ${term.term}`}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        )}
                       </div>
-                    </div>
-                  ))}
+                    )
+                  })}
                 </div>
               </CardContent>
             </Card>
@@ -250,6 +579,67 @@ export function ModelReview({ model, onConfirm, onCancel, isConfirming }: ModelR
         </TabsContent>
       </Tabs>
 
+      {/* Pending changes */}
+      {hasChanges && (
+        <Card className="border-primary/40">
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-base">Cambios pendientes</CardTitle>
+              <Button variant="ghost" size="sm" onClick={discardChanges} disabled={isConfirming}>
+                <Undo2 className="h-4 w-4 mr-1" />
+                Descartar cambios
+              </Button>
+            </div>
+            <CardDescription>Se aplicarán al confirmar el modelo.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-1 text-sm">
+              {Object.entries(tableRenames).map(([from, to]) => (
+                <li key={`table-${from}`}>
+                  Tabla <span className="font-mono text-muted-foreground">{from}</span> →{' '}
+                  <span className="font-mono font-medium">{to}</span>
+                </li>
+              ))}
+              {Object.entries(columnRenames).map(([from, to]) => (
+                <li key={`column-${from}`}>
+                  Columna <span className="font-mono text-muted-foreground">{from}</span> →{' '}
+                  <span className="font-mono font-medium">{to}</span>
+                </li>
+              ))}
+              {relationshipEdits.removed.map((rel) => (
+                <li key={`rel-removed-${describeRelationship(rel)}`}>
+                  Relación rechazada{' '}
+                  <span className="font-mono text-muted-foreground line-through">{describeRelationship(rel)}</span>
+                </li>
+              ))}
+              {relationshipEdits.added.map((rel) => (
+                <li key={`rel-added-${describeRelationship(rel)}`}>
+                  Relación nueva <span className="font-mono font-medium">{describeRelationship(rel)}</span>{' '}
+                  ({relationshipTypeLabels[rel.type] || rel.type})
+                </li>
+              ))}
+              {relationshipEdits.typeChanges.map((rel) => (
+                <li key={`rel-type-${describeRelationship(rel)}`}>
+                  Tipo de relación <span className="font-mono text-muted-foreground">{describeRelationship(rel)}</span> →{' '}
+                  <span className="font-medium">{relationshipTypeLabels[rel.type] || rel.type}</span>
+                </li>
+              ))}
+              {removedTerms.map((term) => (
+                <li key={`term-removed-${term}`}>
+                  Término eliminado <span className="font-medium line-through">{term}</span>
+                </li>
+              ))}
+              {validTerms.map((t) => (
+                <li key={`term-${t.term}`}>
+                  {detectedMeaning(t.term.trim()) !== undefined ? 'Término editado' : 'Término nuevo'}{' '}
+                  <span className="font-medium">{t.term}</span>: {t.meaning}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
       <Separator />
 
       {/* Actions */}
@@ -262,11 +652,15 @@ export function ModelReview({ model, onConfirm, onCancel, isConfirming }: ModelR
           Cancelar y empezar de nuevo
         </Button>
         <Button
-          onClick={() => onConfirm()}
+          onClick={handleConfirm}
           disabled={isConfirming}
           size="lg"
         >
-          {isConfirming ? 'Confirmando...' : 'Confirmar y procesar datos'}
+          {isConfirming
+            ? 'Confirmando...'
+            : hasChanges
+            ? 'Confirmar con cambios'
+            : 'Confirmar y procesar datos'}
         </Button>
       </div>
     </div>
@@ -0,0 +1,245 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Progress } from '@/components/ui/progress'
+import { ArrowLeft, ArrowRight, Check, Loader2 } from 'lucide-react'
+import type { WizardQuestion } from '@/lib/api'
+
+export type WizardAnswerValue = string | string[]
+
+interface OnboardingWizardProps {
+  questions: WizardQuestion[]
+  totalSteps: number
+  stepTitles: string[]
+  answers: Record<string, WizardAnswerValue>
+  currentStep: number
+  onAnswerChange: (questionId: string, value: WizardAnswerValue) => void
+  onStepChange: (step: number) => void
+  onSubmit: () => void
+  isSubmitting?: boolean
+}
+
+// Follow the server's step grouping; without it, split evenly across the announced steps
+export function groupQuestionsBySteps(questions: WizardQuestion[], totalSteps: number): WizardQuestion[][] {
+  if (questions.some((q) => q.step !== undefined)) {
+    const groups = new Map<number, WizardQuestion[]>()
+    for (const question of questions) {
+      // Ungrouped questions go in the first step
+      const key = question.step ?? -Infinity
+      groups.set(key, [...(groups.get(key) || []), question])
+    }
+    return [...groups.keys()].sort((a, b) => a - b).map((key) => groups.get(key)!)
+  }
+
+  const steps = Math.max(1, Math.min(totalSteps || 1, questions.length || 1))
+  const perStep = Math.ceil(questions.length / steps)
+  return Array.from({ length: steps }, (_, i) => questions.slice(i * perStep, (i + 1) * perStep))
+    .filter((group) => group.length > 0)
+}
+
+export function isAnswered(value?: WizardAnswerValue): boolean {
+  if (value === undefined) return false
+  if (Array.isArray(value)) return value.length > 0
+  return value.trim() !== ''
+}
+
+export function OnboardingWizard({
+  questions,
+  totalSteps,
+  stepTitles,
+  answers,
+  currentStep,
+  onAnswerChange,
+  onStepChange,
+  onSubmit,
+  isSubmitting,
+}: OnboardingWizardProps) {
+  const [showErrors, setShowErrors] = useState(false)
+
+  const steps = groupQuestionsBySteps(questions, totalSteps)
+  // A restored step may be out of range for the questions we got this time
+  const step = Math.max(0, Math.min(currentStep, steps.length - 1))
+  const stepQuestions = steps[step] || []
+  const isLastStep = step === steps.length - 1
+
+  const missingRequired = stepQuestions.filter(
+    (q) => q.required && !isAnswered(answers[q.id])
+  )
+
+  const handleNext = () => {
+    if (missingRequired.length > 0) {
+      setShowErrors(true)
+      return
+    }
+    setShowErrors(false)
+    if (isLastStep) {
+      onSubmit()
+    } else {
+      onStepChange(step + 1)
+    }
+  }
+
+  const handleBack = () => {
+    setShowErrors(false)
+    onStepChange(step - 1)
+  }
+
+  // Nothing to ask: the page offers to skip ahead instead
+  if (steps.length === 0) return null
+
+  const toggleOption = (question: WizardQuestion, value: string) => {
+    if (question.type === 'multiple') {
+      const current = Array.isArray(answers[question.id]) ? (answers[question.id] as string[]) : []
+      onAnswerChange(
+        question.id,
+        current.includes(value) ? current.filter((v) => v !== value) : [...current, value]
+      )
+    } else {
+      onAnswerChange(question.id, value)
+    }
+  }
+
+  return (
+    <div className="space-y-6 w-full max-w-2xl mx-auto">
+      {/* Stepper */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-center gap-2 flex-wrap">
+          {steps.map((_, index) => {
+            const isComplete = index < step
+            const isCurrent = index === step
+            return (
+              <div key={index} className="flex items-center gap-2">
+                <div
+                  className={`
+                    w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium
+                    ${isComplete || isCurrent ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground'}
+                  `}
+                >
+                  {isComplete ? <Check className="h-4 w-4" /> : index + 1}
+                </div>
+                <span className={`text-sm hidden sm:inline ${isCurrent ? 'font-medium text-foreground' : 'text-muted-foreground'}`}>
+                  {stepTitles[index] || `Paso ${index + 1}`}
+                </span>
+                {index < steps.length - 1 && (
+                  <div className={`w-8 h-0.5 ${isComplete ? 'bg-primary' : 'bg-muted'}`} />
+                )}
+              </div>
+            )
+          })}
+        </div>
+        <Progress value={((step + 1) / steps.length) * 100} className="h-1" />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{stepTitles[step] || `Paso ${step + 1}`}</CardTitle>
+          <CardDescription>
+            Paso {step + 1} de {steps.length}
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          {stepQuestions.map((question) => (
+            <WizardQuestionField
+              key={question.id}
+              question={question}
+              value={answers[question.id]}
+              showError={showErrors && question.required && !isAnswered(answers[question.id])}
+              onOptionToggle={(value) => toggleOption(question, value)}
+              onTextChange={(value) => onAnswerChange(question.id, value)}
+            />
+          ))}
+        </CardContent>
+
+        <CardFooter className="flex justify-between gap-4">
+          <Button
+            variant="outline"
+            onClick={handleBack}
+            disabled={step === 0 || isSubmitting}
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Anterior
+          </Button>
+
+          <Button onClick={handleNext} disabled={isSubmitting}>
+            {isSubmitting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : isLastStep ? (
+              <Check className="h-4 w-4 mr-2" />
+            ) : (
+              <ArrowRight className="h-4 w-4 mr-2" />
+            )}
+            {isLastStep ? 'Generar plan' : 'Siguiente'}
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  )
+}
+
+// Single question renderer
+interface WizardQuestionFieldProps {
+  question: WizardQuestion
+  value?: WizardAnswerValue
+  showError: boolean
+  onOptionToggle: (value: string) => void
+  onTextChange: (value: string) => void
+}
+
+function WizardQuestionField({ question, value, showError, onOptionToggle, onTextChange }: WizardQuestionFieldProps) {
+  const isSelected = (optionValue: string) =>
+    Array.isArray(value) ? value.includes(optionValue) : value === optionValue
+
+  return (
+    <div className="space-y-3">
+      <p className="font-medium">
+        {question.text}
+        {question.required && <span className="text-destructive ml-1">*</span>}
+      </p>
+      {question.type === 'multiple' && (
+        <p className="text-xs text-muted-foreground">Puedes elegir varias opciones</p>
+      )}
+
+      {question.type === 'text' ? (
+        <Textarea
+          placeholder="Escribe tu respuesta..."
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onTextChange(e.target.value)}
+          aria-invalid={showError}
+          rows={3}
+        />
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {(question.options || []).map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => onOptionToggle(option.value)}
+              className={`
+                flex items-center gap-3 p-3 rounded-lg border text-left
+                transition-all duration-200
+                ${
+                  isSelected(option.value)
+                    ? 'border-primary bg-primary/5 ring-1 ring-primary'
+                    : 'hover:border-primary/50 hover:bg-muted/50'
+                }
+              `}
+            >
+              <span className="flex-1 font-medium text-sm">{option.label}</span>
+              {isSelected(option.value) && (
+                <Check className="h-4 w-4 text-primary flex-shrink-0" />
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {showError && (
+        <p className="text-sm text-destructive">Esta pregunta es obligatoria</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+'use client'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { ArrowLeft, ArrowRight, Clock, Sparkles, Wallet, KeyRound, Server } from 'lucide-react'
+import type { OnboardingPlan } from '@/lib/api'
+
+interface PlanSummaryProps {
+  plan: OnboardingPlan
+  onContinue: () => void
+  onEditAnswers: () => void
+}
+
+// Human-readable step status labels
+const stepStatusLabels: Record<string, { label: string; variant: 'default' | 'secondary' | 'outline' }> = {
+  completed: { label: 'Completado', variant: 'default' },
+  in_progress: { label: 'En progreso', variant: 'secondary' },
+  pending: { label: 'Pendiente', variant: 'outline' },
+}
+
+function formatMonthlyCost(cost: number): string {
+  return cost.toLocaleString('es-MX', { style: 'currency', currency: 'MXN' })
+}
+
+export function PlanSummary({ plan, onContinue, onEditAnswers }: PlanSummaryProps) {
+  const steps = [...plan.steps].sort((a, b) => a.order - b.order)
+
+  return (
+    <div className="space-y-6 w-full max-w-2xl mx-auto">
+      {/* Header */}
+      <div className="text-center space-y-2">
+        <h1 className="text-2xl font-bold">Tu plan de configuración</h1>
+        <p className="text-muted-foreground">
+          Con base en tus respuestas, esto es lo que haremos para preparar tu asistente.
+        </p>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="pt-6 text-center space-y-1">
+            <Clock className="h-5 w-5 text-primary mx-auto" />
+            <div className="text-xl font-bold">{plan.estimatedSetupTime}</div>
+            <div className="text-sm text-muted-foreground">Tiempo estimado</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6 text-center space-y-1">
+            <Sparkles className="h-5 w-5 text-primary mx-auto" />
+            <div className="text-xl font-bold capitalize">{plan.recommendedPlan}</div>
+            <div className="text-sm text-muted-foreground">Plan recomendado</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6 text-center space-y-1">
+            <Wallet className="h-5 w-5 text-primary mx-auto" />
+            <div className="text-xl font-bold">{formatMonthlyCost(plan.estimatedMonthlyCost)}</div>
+            <div className="text-sm text-muted-foreground">Costo mensual estimado</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Extra requirements */}
+      {(plan.requiresOAuth || plan.requiresAgent) && (
+        <Alert>
+          <AlertDescription className="space-y-1">
+            {plan.requiresOAuth && (
+              <p className="flex items-center gap-2">
+                <KeyRound className="h-4 w-4" />
+                Necesitarás autorizar el acceso a tu fuente de datos.
+              </p>
+            )}
+            {plan.requiresAgent && (
+              <p className="flex items-center gap-2">
+                <Server className="h-4 w-4" />
+                Necesitarás instalar el agente de IAvoqado en tu servidor.
+              </p>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Steps */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Pasos</CardTitle>
+          <CardDescription>{steps.length} pasos para tener tu chatbot listo</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {steps.map((step) => {
+            const status = stepStatusLabels[step.status]
+            return (
+              <div key={step.id} className="flex items-start gap-4 p-3 border rounded-lg">
+                <div className="w-8 h-8 rounded-full bg-primary/10 text-primary flex items-center justify-center text-sm font-medium shrink-0">
+                  {step.order}
+                </div>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="font-medium">{step.title}</p>
+                    <Badge variant={status?.variant || 'outline'}>
+                      {status?.label || step.status}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{step.description}</p>
+                  {step.progress && step.progress.total > 0 && (
+                    <div className="flex items-center gap-2 pt-1">
+                      <Progress
+                        value={(step.progress.current / step.progress.total) * 100}
+                        className="h-1"
+                      />
+                      <span className="text-xs text-muted-foreground shrink-0">
+                        {step.progress.current}/{step.progress.total}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </CardContent>
+        <CardFooter className="flex justify-between gap-4">
+          <Button variant="outline" onClick={onEditAnswers}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Editar respuestas
+          </Button>
+          <Button onClick={onContinue}>
+            Continuar a subir archivos
+            <ArrowRight className="h-4 w-4 ml-2" />
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  )
+}
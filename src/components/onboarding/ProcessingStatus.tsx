@@ -21,14 +21,22 @@ import {
   HelpCircle,
   Check,
   Circle,
+  WifiOff,
+  RotateCcw,
+  Loader2,
 } from 'lucide-react'
 import type { ProcessingStatus as ProcessingStatusType, StageInfo } from '@/lib/api'
+import type { StatusConnection } from '@/lib/processing-updates'
 
 interface ProcessingStatusProps {
   status: ProcessingStatusType
   onComplete: () => void
   onError: () => void
   onClarificationNeeded?: () => void
+  connection?: StatusConnection
+  // Resume from the failed stage; offered for retryable errors
+  onRetry?: () => void
+  isRetrying?: boolean
 }
 
 const stageOrder = [
@@ -73,7 +81,15 @@ const stageIconsSmall: Record<string, ReactNode> = {
   ready: <PartyPopper className="h-5 w-5" />,
 }
 
-export function ProcessingStatus({ status, onComplete, onError, onClarificationNeeded }: ProcessingStatusProps) {
+export function ProcessingStatus({
+  status,
+  onComplete,
+  onError,
+  onClarificationNeeded,
+  connection,
+  onRetry,
+  isRetrying = false,
+}: ProcessingStatusProps) {
   const [dots, setDots] = useState('')
 
   // Animate dots
@@ -100,9 +116,12 @@ export function ProcessingStatus({ status, onComplete, onError, onClarificationN
 
   if (status.error) {
     // Handle error as string or object
-    const errorMessage = typeof status.error === 'string'
-      ? status.error
-      : (status.error as any)?.message || 'Error desconocido'
+    const processingError = typeof status.error === 'string' ? { message: status.error } : status.error
+    const errorMessage = processingError.message || 'Error desconocido'
+    const failedStage = 'stage' in processingError ? processingError.stage || status.stage : status.stage
+    const canRetry = 'retryable' in processingError && !!processingError.retryable && !!onRetry
+    // The timeline shows the message under the failed stage when it knows it
+    const isKnownStage = !!failedStage && stageOrder.includes(failedStage)
 
     return (
       <Card className="w-full max-w-xl mx-auto border-destructive">
@@ -111,16 +130,40 @@ export function ProcessingStatus({ status, onComplete, onError, onClarificationN
             <XCircle className="h-5 w-5" />
             Error en el procesamiento
           </CardTitle>
+          {isKnownStage && (
+            <CardDescription>Falló en: {getStageLabel(failedStage)}</CardDescription>
+          )}
         </CardHeader>
-        <CardContent>
-          <Alert variant="destructive">
-            <AlertCircle className="h-4 w-4" />
-            <AlertTitle>Algo salio mal</AlertTitle>
-            <AlertDescription>{errorMessage}</AlertDescription>
-          </Alert>
-          <Button onClick={onError} className="w-full mt-4">
-            Intentar de nuevo
-          </Button>
+        <CardContent className="space-y-6">
+          {isKnownStage ? (
+            <StageTimeline currentStage={failedStage} failedStage={failedStage} errorMessage={errorMessage} />
+          ) : (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Algo salio mal</AlertTitle>
+              <AlertDescription>{errorMessage}</AlertDescription>
+            </Alert>
+          )}
+
+          {canRetry ? (
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Button onClick={onRetry} disabled={isRetrying} className="flex-1">
+                {isRetrying ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                )}
+                {isKnownStage ? `Reintentar desde "${getStageLabel(failedStage)}"` : 'Reintentar'}
+              </Button>
+              <Button variant="outline" onClick={onError} disabled={isRetrying} className="flex-1">
+                Volver a subir archivos
+              </Button>
+            </div>
+          ) : (
+            <Button onClick={onError} className="w-full">
+              Intentar de nuevo
+            </Button>
+          )}
         </CardContent>
       </Card>
     )
@@ -141,6 +184,17 @@ export function ProcessingStatus({ status, onComplete, onError, onClarificationN
       </CardHeader>
 
       <CardContent className="space-y-6">
+        {/* Lost connection: the status shown may be stale */}
+        {connection === 'reconnecting' && (
+          <Alert>
+            <WifiOff className="h-4 w-4" />
+            <AlertTitle>Conexión perdida</AlertTitle>
+            <AlertDescription>
+              Reintentando... El procesamiento continúa en el servidor.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Overall Progress */}
         <div className="space-y-2">
           <div className="flex justify-between text-sm">
@@ -164,43 +218,7 @@ export function ProcessingStatus({ status, onComplete, onError, onClarificationN
         )}
 
         {/* Stage List */}
-        <div className="space-y-2">
-          {stageOrder.slice(0, -1).map((stage, index) => {
-            const isComplete = currentStageIndex > index
-            const isCurrent = status.stage === stage
-            const isPending = currentStageIndex < index
-
-            return (
-              <div
-                key={stage}
-                className={`
-                  flex items-center gap-3 p-2 rounded-md text-sm
-                  ${isCurrent ? 'bg-primary/10' : ''}
-                  ${isComplete ? 'text-muted-foreground' : ''}
-                  ${isPending ? 'text-muted-foreground/50' : ''}
-                `}
-              >
-                <span className="flex-shrink-0">
-                  {isComplete ? (
-                    <Check className="h-5 w-5 text-green-500" />
-                  ) : isCurrent ? (
-                    stageIconsSmall[stage]
-                  ) : (
-                    <Circle className="h-5 w-5" />
-                  )}
-                </span>
-                <span className={isCurrent ? 'font-medium' : ''}>
-                  {getStageLabel(stage)}
-                </span>
-                {isCurrent && (
-                  <Badge variant="secondary" className="ml-auto">
-                    En progreso
-                  </Badge>
-                )}
-              </div>
-            )
-          })}
-        </div>
+        <StageTimeline currentStage={status.stage} />
 
         {/* Estimated Time */}
         {status.stageInfo?.estimatedMinutes && status.stageInfo.estimatedMinutes > 0 && (
@@ -227,6 +245,69 @@ export function ProcessingStatus({ status, onComplete, onError, onClarificationN
   )
 }
 
+// Stages done, in progress and pending; a failed stage shows its error below it
+function StageTimeline({ currentStage, failedStage, errorMessage }: {
+  currentStage?: string
+  failedStage?: string
+  errorMessage?: string
+}) {
+  const currentStageIndex = currentStage ? stageOrder.indexOf(currentStage) : 0
+
+  return (
+    <div className="space-y-2">
+      {stageOrder.slice(0, -1).map((stage, index) => {
+        const isFailed = failedStage === stage
+        const isComplete = currentStageIndex > index
+        const isCurrent = currentStage === stage && !isFailed
+        const isPending = currentStageIndex < index
+
+        return (
+          <div
+            key={stage}
+            className={`
+              p-2 rounded-md text-sm
+              ${isCurrent ? 'bg-primary/10' : ''}
+              ${isFailed ? 'bg-destructive/10' : ''}
+              ${isComplete ? 'text-muted-foreground' : ''}
+              ${isPending ? 'text-muted-foreground/50' : ''}
+            `}
+          >
+            <div className="flex items-center gap-3">
+              <span className="flex-shrink-0">
+                {isFailed ? (
+                  <XCircle className="h-5 w-5 text-destructive" />
+                ) : isComplete ? (
+                  <Check className="h-5 w-5 text-green-500" />
+                ) : isCurrent ? (
+                  stageIconsSmall[stage]
+                ) : (
+                  <Circle className="h-5 w-5" />
+                )}
+              </span>
+              <span className={isCurrent || isFailed ? 'font-medium' : ''}>
+                {getStageLabel(stage)}
+              </span>
+              {isCurrent && (
+                <Badge variant="secondary" className="ml-auto">
+                  En progreso
+                </Badge>
+              )}
+              {isFailed && (
+                <Badge variant="destructive" className="ml-auto">
+                  Falló
+                </Badge>
+              )}
+            </div>
+            {isFailed && errorMessage && (
+              <p className="mt-1 pl-8 text-destructive">{errorMessage}</p>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
 function getStageLabel(stage: string): string {
   const labels: Record<string, string> = {
     uploading: 'Subiendo archivos',
@@ -0,0 +1,338 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { AlertTriangle, Plus, Undo2, X } from 'lucide-react'
+import type { DetectedRelationship, ProposedTable, RelationshipEdits, RelationshipRef } from '@/lib/api'
+
+interface RelationshipEditorProps {
+  tables: ProposedTable[]
+  relationships: DetectedRelationship[]
+  edits: RelationshipEdits
+  onChange: (edits: RelationshipEdits) => void
+  displayTable: (table: string) => string
+  displayColumn: (table: string, column: string) => string
+}
+
+export const LOW_CONFIDENCE_THRESHOLD = 0.7
+
+export const relationshipTypeLabels: Record<string, string> = {
+  'one-to-one': 'Uno a uno',
+  'one-to-many': 'Uno a muchos',
+  'many-to-one': 'Muchos a uno',
+  'many-to-many': 'Muchos a muchos',
+}
+
+export const emptyRelationshipEdits: RelationshipEdits = { removed: [], added: [], typeChanges: [] }
+
+export function relationshipKey(rel: RelationshipRef) {
+  return `${rel.fromTable}.${rel.fromColumn}->${rel.toTable}.${rel.toColumn}`
+}
+
+export function countRelationshipEdits(edits: RelationshipEdits) {
+  return edits.removed.length + edits.added.length + edits.typeChanges.length
+}
+
+const selectClassName =
+  'h-8 rounded-md border border-input bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] dark:bg-input/30'
+
+export function RelationshipEditor({
+  tables,
+  relationships,
+  edits,
+  onChange,
+  displayTable,
+  displayColumn,
+}: RelationshipEditorProps) {
+  const removedKeys = new Set(edits.removed.map(relationshipKey))
+  const typeChanges = new Map(edits.typeChanges.map((change) => [relationshipKey(change), change.type]))
+
+  // Offer the standard cardinalities plus anything the detector used
+  const typeOptions = Array.from(
+    new Set([...Object.keys(relationshipTypeLabels), ...relationships.map((rel) => rel.type)])
+  )
+
+  const toggleRemoved = (rel: DetectedRelationship) => {
+    const key = relationshipKey(rel)
+    const ref = { fromTable: rel.fromTable, fromColumn: rel.fromColumn, toTable: rel.toTable, toColumn: rel.toColumn }
+    onChange({
+      ...edits,
+      removed: removedKeys.has(key)
+        ? edits.removed.filter((r) => relationshipKey(r) !== key)
+        : [...edits.removed, ref],
+    })
+  }
+
+  const changeType = (rel: DetectedRelationship, type: string) => {
+    const key = relationshipKey(rel)
+    const rest = edits.typeChanges.filter((change) => relationshipKey(change) !== key)
+    onChange({
+      ...edits,
+      typeChanges: type === rel.type
+        ? rest
+        : [...rest, { fromTable: rel.fromTable, fromColumn: rel.fromColumn, toTable: rel.toTable, toColumn: rel.toColumn, type }],
+    })
+  }
+
+  const existingKeys = new Set([
+    ...relationships.map(relationshipKey),
+    ...edits.added.map(relationshipKey),
+  ])
+
+  const addRelationship = (rel: RelationshipRef & { type: string }) => {
+    onChange({ ...edits, added: [...edits.added, rel] })
+  }
+
+  const removeAdded = (key: string) => {
+    onChange({ ...edits, added: edits.added.filter((rel) => relationshipKey(rel) !== key) })
+  }
+
+  const typeSelect = (value: string, onSelect: (type: string) => void, disabled = false) => (
+    <select
+      value={value}
+      onChange={(e) => onSelect(e.target.value)}
+      className={selectClassName}
+      disabled={disabled}
+      aria-label="Tipo de relación"
+    >
+      {typeOptions.map((type) => (
+        <option key={type} value={type}>
+          {relationshipTypeLabels[type] || type}
+        </option>
+      ))}
+    </select>
+  )
+
+  const endpoint = (table: string, column: string) => (
+    <>
+      <span className="font-medium">{displayTable(table)}</span>
+      <span className="text-muted-foreground">.{displayColumn(table, column)}</span>
+    </>
+  )
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="pt-6">
+          {relationships.length === 0 && edits.added.length === 0 ? (
+            <p className="text-center text-muted-foreground">
+              No se detectaron relaciones entre tablas.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Desde</TableHead>
+                  <TableHead></TableHead>
+                  <TableHead>Hacia</TableHead>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead className="text-right">Confianza</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {relationships.map((rel) => {
+                  const key = relationshipKey(rel)
+                  const isRemoved = removedKeys.has(key)
+                  const isLowConfidence = rel.confidence < LOW_CONFIDENCE_THRESHOLD
+                  return (
+                    <TableRow key={key} className={isRemoved ? 'opacity-50' : ''}>
+                      <TableCell className={isRemoved ? 'line-through' : ''}>
+                        {endpoint(rel.fromTable, rel.fromColumn)}
+                      </TableCell>
+                      <TableCell className="text-center">→</TableCell>
+                      <TableCell className={isRemoved ? 'line-through' : ''}>
+                        {endpoint(rel.toTable, rel.toColumn)}
+                      </TableCell>
+                      <TableCell>
+                        {typeSelect(typeChanges.get(key) || rel.type, (type) => changeType(rel, type), isRemoved)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {isLowConfidence ? (
+                          <Badge variant="outline" className="gap-1 text-amber-600 border-amber-500/40">
+                            <AlertTriangle className="h-3 w-3" />
+                            {Math.round(rel.confidence * 100)}%
+                          </Badge>
+                        ) : (
+                          `${Math.round(rel.confidence * 100)}%`
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => toggleRemoved(rel)}
+                          aria-label={isRemoved ? 'Restaurar relación' : 'Rechazar relación'}
+                        >
+                          {isRemoved ? <Undo2 className="h-4 w-4" /> : <X className="h-4 w-4" />}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+                {edits.added.map((rel) => {
+                  const key = relationshipKey(rel)
+                  return (
+                    <TableRow key={key}>
+                      <TableCell>{endpoint(rel.fromTable, rel.fromColumn)}</TableCell>
+                      <TableCell className="text-center">→</TableCell>
+                      <TableCell>{endpoint(rel.toTable, rel.toColumn)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{relationshipTypeLabels[rel.type] || rel.type}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Badge variant="secondary">Nueva</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => removeAdded(key)}
+                          aria-label="Quitar relación"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {tables.length > 0 && (
+        <AddRelationshipForm
+          tables={tables}
+          typeOptions={typeOptions}
+          existingKeys={existingKeys}
+          onAdd={addRelationship}
+          displayTable={displayTable}
+          displayColumn={displayColumn}
+        />
+      )}
+    </div>
+  )
+}
+
+function AddRelationshipForm({
+  tables,
+  typeOptions,
+  existingKeys,
+  onAdd,
+  displayTable,
+  displayColumn,
+}: {
+  tables: ProposedTable[]
+  typeOptions: string[]
+  existingKeys: Set<string>
+  onAdd: (rel: RelationshipRef & { type: string }) => void
+  displayTable: (table: string) => string
+  displayColumn: (table: string, column: string) => string
+}) {
+  const [fromTable, setFromTable] = useState('')
+  const [fromColumn, setFromColumn] = useState('')
+  const [toTable, setToTable] = useState('')
+  const [toColumn, setToColumn] = useState('')
+  const [type, setType] = useState('many-to-one')
+
+  const columnsOf = (table: string) => tables.find((t) => t.name === table)?.columns || []
+
+  const draft = { fromTable, fromColumn, toTable, toColumn }
+  const isComplete = Boolean(fromTable && fromColumn && toTable && toColumn)
+  const isDuplicate = isComplete && existingKeys.has(relationshipKey(draft))
+  const isSelfReference = isComplete && fromTable === toTable && fromColumn === toColumn
+
+  const handleAdd = () => {
+    if (!isComplete || isDuplicate || isSelfReference) return
+    onAdd({ ...draft, type })
+    setFromColumn('')
+    setToColumn('')
+  }
+
+  const columnSelect = (table: string, value: string, onSelect: (value: string) => void, label: string) => (
+    <select
+      value={value}
+      onChange={(e) => onSelect(e.target.value)}
+      className={selectClassName}
+      disabled={!table}
+      aria-label={label}
+    >
+      <option value="">Columna</option>
+      {columnsOf(table).map((col) => (
+        <option key={col.name} value={col.name}>
+          {displayColumn(table, col.name)}
+        </option>
+      ))}
+    </select>
+  )
+
+  const tableSelect = (value: string, onSelect: (value: string) => void, label: string) => (
+    <select
+      value={value}
+      onChange={(e) => onSelect(e.target.value)}
+      className={selectClassName}
+      aria-label={label}
+    >
+      <option value="">Tabla</option>
+      {tables.map((table) => (
+        <option key={table.name} value={table.name}>
+          {displayTable(table.name)}
+        </option>
+      ))}
+    </select>
+  )
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Agregar relación</CardTitle>
+        <CardDescription>
+          Si falta una relación entre tablas, agrégala para que el chatbot pueda unirlas correctamente.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          {tableSelect(fromTable, (value) => { setFromTable(value); setFromColumn('') }, 'Tabla origen')}
+          {columnSelect(fromTable, fromColumn, setFromColumn, 'Columna origen')}
+          <span className="text-muted-foreground">→</span>
+          {tableSelect(toTable, (value) => { setToTable(value); setToColumn('') }, 'Tabla destino')}
+          {columnSelect(toTable, toColumn, setToColumn, 'Columna destino')}
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value)}
+            className={selectClassName}
+            aria-label="Tipo de relación"
+          >
+            {typeOptions.map((option) => (
+              <option key={option} value={option}>
+                {relationshipTypeLabels[option] || option}
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleAdd}
+            disabled={!isComplete || isDuplicate || isSelfReference}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Agregar
+          </Button>
+        </div>
+        {isDuplicate && (
+          <p className="text-xs text-destructive">Esta relación ya existe</p>
+        )}
+        {isSelfReference && (
+          <p className="text-xs text-destructive">Una columna no puede relacionarse consigo misma</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,7 +1,7 @@
 'use client'
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card'
-import { Button } from '@/components/ui/button'
+import { Button, buttonVariants } from '@/components/ui/button'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import {
   AlertCircle,
@@ -11,8 +11,13 @@ import {
   Upload,
   ArrowRight,
   RefreshCw,
+  Replace,
+  Loader2,
 } from 'lucide-react'
 import type { ValidationError, ValidationWarning } from '@/lib/api'
+import { cn } from '@/lib/utils'
+import { ACCEPTED_EXTENSIONS } from './FileUploader'
+import { ValidationWarnings } from './ValidationWarnings'
 
 interface ValidationErrorsProps {
   errors: ValidationError[]
@@ -20,6 +25,10 @@ interface ValidationErrorsProps {
   validFilesCount?: number
   onReupload: () => void
   onContinueWithValid?: () => void
+  // Upload a new version of one failing file
+  onReplaceFile?: (fileId: string, file: File) => void
+  replacingFileId?: string | null
+  isContinuing?: boolean
 }
 
 // Map error types to icons
@@ -48,9 +57,13 @@ export function ValidationErrors({
   validFilesCount = 0,
   onReupload,
   onContinueWithValid,
+  onReplaceFile,
+  replacingFileId = null,
+  isContinuing = false,
 }: ValidationErrorsProps) {
   const hasValidFiles = validFilesCount > 0
   const canContinue = hasValidFiles && onContinueWithValid
+  const isBusy = replacingFileId !== null || isContinuing
 
   return (
     <Card className="w-full max-w-2xl mx-auto border-destructive/50">
@@ -94,6 +107,36 @@ export function ValidationErrors({
                   )}
                 </AlertDescription>
               </div>
+              {onReplaceFile && (
+                <label>
+                  <input
+                    type="file"
+                    className="hidden"
+                    accept={ACCEPTED_EXTENSIONS.join(',')}
+                    disabled={isBusy}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0]
+                      // Let the same file be picked again after a failed attempt
+                      e.target.value = ''
+                      if (file) onReplaceFile(error.fileId, file)
+                    }}
+                  />
+                  <span
+                    className={cn(
+                      buttonVariants({ variant: 'outline', size: 'sm' }),
+                      'cursor-pointer text-foreground',
+                      isBusy && 'pointer-events-none opacity-50'
+                    )}
+                  >
+                    {replacingFileId === error.fileId ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Replace className="h-4 w-4" />
+                    )}
+                    Reemplazar
+                  </span>
+                </label>
+              )}
             </div>
           </Alert>
         ))}
@@ -101,20 +144,7 @@ export function ValidationErrors({
         {/* Warnings list (if any) */}
         {warnings.length > 0 && (
           <div className="pt-4 border-t">
-            <h4 className="text-sm font-medium text-amber-600 dark:text-amber-400 mb-3">
-              Advertencias
-            </h4>
-            {warnings.map((warning, index) => (
-              <Alert key={`${warning.fileId}-${index}`} className="mb-2 border-amber-500/30 bg-amber-50/50 dark:bg-amber-950/20">
-                <FileWarning className="h-4 w-4 text-amber-600" />
-                <AlertTitle className="text-amber-800 dark:text-amber-300">
-                  {warning.fileName}
-                </AlertTitle>
-                <AlertDescription className="text-amber-700 dark:text-amber-400">
-                  {warning.message}
-                </AlertDescription>
-              </Alert>
-            ))}
+            <ValidationWarnings warnings={warnings} />
           </div>
         )}
 
@@ -137,6 +167,7 @@ export function ValidationErrors({
         <Button
           variant="outline"
           onClick={onReupload}
+          disabled={isBusy}
           className="w-full sm:w-auto"
         >
           <Upload className="h-4 w-4 mr-2" />
@@ -146,9 +177,14 @@ export function ValidationErrors({
         {canContinue && (
           <Button
             onClick={onContinueWithValid}
+            disabled={isBusy}
             className="w-full sm:w-auto"
           >
-            <RefreshCw className="h-4 w-4 mr-2" />
+            {isContinuing ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
             Continuar con archivos válidos
           </Button>
         )}
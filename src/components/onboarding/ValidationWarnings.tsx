@@ -0,0 +1,33 @@
+'use client'
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { FileWarning } from 'lucide-react'
+import type { ValidationWarning } from '@/lib/api'
+
+interface ValidationWarningsProps {
+  warnings: ValidationWarning[]
+}
+
+// Non-blocking problems found while validating files
+export function ValidationWarnings({ warnings }: ValidationWarningsProps) {
+  if (warnings.length === 0) return null
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-amber-600 dark:text-amber-400 mb-3">
+        Advertencias
+      </h4>
+      {warnings.map((warning, index) => (
+        <Alert key={`${warning.fileId}-${index}`} className="mb-2 border-amber-500/30 bg-amber-50/50 dark:bg-amber-950/20">
+          <FileWarning className="h-4 w-4 text-amber-600" />
+          <AlertTitle className="text-amber-800 dark:text-amber-300">
+            {warning.fileName}
+          </AlertTitle>
+          <AlertDescription className="text-amber-700 dark:text-amber-400">
+            {warning.message}
+          </AlertDescription>
+        </Alert>
+      ))}
+    </div>
+  )
+}
@@ -2,3 +2,5 @@
 export { ProcessingStatus } from './ProcessingStatus'
 export { ClarificationQuestions } from './ClarificationQuestions'
 export { ValidationErrors } from './ValidationErrors'
+export { OnboardingWizard } from './OnboardingWizard'
+export { PlanSummary } from './PlanSummary'
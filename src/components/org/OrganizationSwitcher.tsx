@@ -0,0 +1,39 @@
+'use client'
+
+import { useAuth } from '@/lib/auth-context'
+import { roleLabels } from '@/lib/roles'
+import {
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+} from '@/components/ui/dropdown-menu'
+
+// Organization picker for a header dropdown. Renders nothing for users with a
+// single organization.
+export function OrganizationSwitcher() {
+  const { organization, organizations, switchOrganization } = useAuth()
+
+  if (organizations.length < 2) return null
+
+  return (
+    <>
+      <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">
+        Organización
+      </DropdownMenuLabel>
+      <DropdownMenuRadioGroup value={organization?.id} onValueChange={switchOrganization}>
+        {organizations.map((org) => (
+          <DropdownMenuRadioItem key={org.id} value={org.id}>
+            <div className="min-w-0">
+              <p className="truncate">{org.name}</p>
+              {org.role && (
+                <p className="text-xs text-muted-foreground">{roleLabels[org.role]}</p>
+              )}
+            </div>
+          </DropdownMenuRadioItem>
+        ))}
+      </DropdownMenuRadioGroup>
+      <DropdownMenuSeparator />
+    </>
+  )
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import {
+  chatResponseSchema,
+  conversationListResponseSchema,
+  processingStatusSchema,
+  questionsResponseSchema,
+  successResponseSchema,
+  uploadSessionResponseSchema,
+} from './api-schemas'
+
+describe('successResponseSchema', () => {
+  it('treats an empty body as success', () => {
+    expect(successResponseSchema.parse(undefined)).toEqual({ success: true, message: '' })
+  })
+
+  it('keeps the server acknowledgement', () => {
+    expect(successResponseSchema.parse({ success: false, message: 'No' })).toEqual({ success: false, message: 'No' })
+  })
+})
+
+describe('optional fields', () => {
+  it('normalizes null to undefined', () => {
+    const result = chatResponseSchema.parse({
+      success: true,
+      answer: 'Hola',
+      conversationId: 'conv-1',
+      sql: null,
+      data: null,
+    })
+    expect(result.sql).toBeUndefined()
+    expect(result.data).toBeUndefined()
+  })
+
+  it('passes unknown fields through', () => {
+    const result = uploadSessionResponseSchema.parse({
+      upload: { id: 'up-1', fileName: 'ventas.csv', size: 10, offset: 0, checksum: 'abc' },
+    })
+    expect(result.upload).toMatchObject({ checksum: 'abc' })
+  })
+})
+
+describe('questionsResponseSchema', () => {
+  it('rejects an unknown question type at its path', () => {
+    const result = questionsResponseSchema.safeParse({
+      questions: [{ id: 'q1', text: '¿Giro?', type: 'dropdown', required: true }],
+      totalSteps: 1,
+      stepTitles: [],
+    })
+    expect(result.success).toBe(false)
+    expect(result.error?.issues[0].path).toEqual(['questions', 0, 'type'])
+  })
+})
+
+describe('processingStatusSchema', () => {
+  it('accepts the error as a message or as details', () => {
+    expect(processingStatusSchema.parse({ hasProcessing: true, error: 'Falló' }).error).toBe('Falló')
+    expect(
+      processingStatusSchema.parse({ hasProcessing: true, error: { stage: 'analysis', retryable: true } }).error
+    ).toEqual({ stage: 'analysis', retryable: true })
+  })
+
+  it('rejects unknown validation error types', () => {
+    const result = processingStatusSchema.safeParse({
+      hasProcessing: true,
+      validationErrors: [{ fileId: 'f1', fileName: 'a.csv', errorType: 'weird', message: '', suggestion: '' }],
+    })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe('conversationListResponseSchema', () => {
+  it('allows untitled conversations', () => {
+    const result = conversationListResponseSchema.parse({
+      conversations: [{
+        id: 'conv-1',
+        title: null,
+        messageCount: 2,
+        totalTokens: 100,
+        totalCostUsd: 0.01,
+        createdAt: '2025-01-01T00:00:00Z',
+        updatedAt: '2025-01-01T00:00:00Z',
+      }],
+      pagination: { limit: 20, offset: 0, hasMore: false },
+    })
+    expect(result.conversations[0].title).toBeNull()
+  })
+
+  it('requires pagination', () => {
+    expect(conversationListResponseSchema.safeParse({ conversations: [] }).success).toBe(false)
+  })
+})
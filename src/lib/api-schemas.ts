@@ -0,0 +1,654 @@
+/**
+ * Runtime schemas for IAvoqado API responses
+ *
+ * Each schema is typed against the interface in ./api, so the compiler keeps
+ * them in sync. Objects are loose: unknown fields pass through untouched.
+ */
+
+import { z } from 'zod'
+import type {
+  WizardQuestion,
+  OnboardingPlan,
+  ProposedTable,
+  DetectedRelationship,
+  DetectedTerm,
+  ProposedModel,
+  StageInfo,
+  ClarificationQuestion,
+  ClarificationState,
+  ValidationError,
+  ValidationWarning,
+  ProcessingError,
+  ProcessingStatus,
+  ReadyStatus,
+  ChatResponse,
+  Conversation,
+  ConversationDetail,
+  ConversationMessage,
+  ConversationStats,
+  UsageBreakdown,
+  User,
+  Organization,
+  SsoProvider,
+  SsoDiscovery,
+  OrgMember,
+  OrgInvitation,
+  InvitationDetails,
+  UploadSession,
+  DataSource,
+  DataSourcePreview,
+  DocumentContent,
+  SchemaColumn,
+  SchemaRelationship,
+  PiiColumn,
+  DataSourceSchema,
+} from './api'
+
+// Backends send null for absent optional fields; normalize to undefined
+const optional = <T extends z.ZodType>(schema: T) =>
+  schema.nullish().transform((value) => value ?? undefined)
+
+const progress = z.looseObject({ current: z.number(), total: z.number() })
+const tokens = z.looseObject({ input: z.number(), output: z.number() })
+const resultRows = z.array(z.record(z.string(), z.unknown()))
+
+// Generic { success, message } acknowledgement; a 204 No Content counts as success
+export const successResponseSchema = z
+  .looseObject({ success: z.boolean(), message: z.string() })
+  .optional()
+  .transform((value) => value ?? { success: true, message: '' })
+
+// ============================================
+// Onboarding
+// ============================================
+
+const wizardQuestion: z.ZodType<WizardQuestion> = z.looseObject({
+  id: z.string(),
+  text: z.string(),
+  type: z.enum(['single', 'multiple', 'text']),
+  options: optional(z.array(z.looseObject({ value: z.string(), label: z.string() }))),
+  required: z.boolean(),
+  step: optional(z.number()),
+})
+
+const onboardingPlan: z.ZodType<OnboardingPlan> = z.looseObject({
+  steps: z.array(
+    z.looseObject({
+      id: z.string(),
+      order: z.number(),
+      title: z.string(),
+      description: z.string(),
+      status: z.string(),
+      type: z.string(),
+      progress: optional(progress),
+    })
+  ),
+  estimatedSetupTime: z.string(),
+  requiresOAuth: z.boolean(),
+  requiresAgent: z.boolean(),
+  recommendedPlan: z.string(),
+  estimatedMonthlyCost: z.number(),
+})
+
+const proposedTable: z.ZodType<ProposedTable> = z.looseObject({
+  name: z.string(),
+  sourceFiles: z.array(z.string()),
+  columns: z.array(
+    z.looseObject({
+      name: z.string(),
+      originalNames: z.array(z.string()),
+      semanticType: z.string(),
+      isPrimaryKey: z.boolean(),
+      isForeignKey: z.boolean(),
+    })
+  ),
+  estimatedRows: z.number(),
+  isMasterData: z.boolean(),
+  mergedFrom: optional(z.array(z.string())),
+})
+
+const detectedRelationship: z.ZodType<DetectedRelationship> = z.looseObject({
+  fromTable: z.string(),
+  fromColumn: z.string(),
+  toTable: z.string(),
+  toColumn: z.string(),
+  confidence: z.number(),
+  type: z.string(),
+})
+
+const detectedTerm: z.ZodType<DetectedTerm> = z.looseObject({
+  term: z.string(),
+  meaning: z.string(),
+  foundIn: z.array(z.string()),
+  confidence: z.number(),
+})
+
+const proposedModel: z.ZodType<ProposedModel> = z.looseObject({
+  tables: z.array(proposedTable),
+  relationships: z.array(detectedRelationship),
+  terminology: z.array(detectedTerm),
+  warnings: z.array(z.string()),
+  summary: z.looseObject({
+    totalTables: z.number(),
+    totalRows: z.number(),
+    totalFiles: z.number(),
+  }),
+})
+
+const stageInfo: z.ZodType<StageInfo> = z.looseObject({
+  title: z.string(),
+  description: z.string(),
+  estimatedMinutes: z.number(),
+})
+
+const clarificationReason = z.enum(['low_quality_score', 'low_confidence', 'both'])
+
+const clarificationQuestion: z.ZodType<ClarificationQuestion> = z.looseObject({
+  id: z.string(),
+  type: z.enum(['business_context', 'schema_validation', 'terminology', 'data_quality']),
+  question: z.string(),
+  importance: z.enum(['critical', 'high', 'medium', 'low']),
+  options: optional(
+    z.array(
+      z.looseObject({
+        value: z.string(),
+        label: z.string(),
+        description: optional(z.string()),
+        icon: optional(z.string()),
+      })
+    )
+  ),
+  context: optional(
+    z.looseObject({
+      columnName: optional(z.string()),
+      sampleValues: optional(z.array(z.string())),
+      suggestedAnswer: optional(z.string()),
+    })
+  ),
+  createdAt: z.string(),
+})
+
+const clarificationState: z.ZodType<ClarificationState> = z.looseObject({
+  needed: z.boolean(),
+  reason: clarificationReason,
+  questions: z.array(clarificationQuestion),
+  answeredCount: z.number(),
+  pendingCount: z.number(),
+  qualityScore: optional(z.number()),
+  llmConfidence: optional(z.number()),
+  skipped: optional(z.boolean()),
+})
+
+const validationError: z.ZodType<ValidationError> = z.looseObject({
+  fileId: z.string(),
+  fileName: z.string(),
+  errorType: z.enum(['corrupt', 'empty', 'no_headers', 'schema_failed', 'unsupported', 'too_large']),
+  message: z.string(),
+  suggestion: z.string(),
+})
+
+const validationWarning: z.ZodType<ValidationWarning> = z.looseObject({
+  fileId: z.string(),
+  fileName: z.string(),
+  warningType: z.string(),
+  message: z.string(),
+})
+
+const processingError: z.ZodType<ProcessingError> = z.looseObject({
+  stage: optional(z.string()),
+  message: optional(z.string()),
+  retryable: optional(z.boolean()),
+})
+
+export const processingStatusSchema: z.ZodType<ProcessingStatus> = z.looseObject({
+  hasProcessing: z.boolean(),
+  stateId: optional(z.string()),
+  stage: optional(z.string()),
+  stageInfo: optional(stageInfo),
+  progress: optional(z.looseObject({ current: z.number(), total: z.number(), percentage: z.number() })),
+  timing: optional(
+    z.looseObject({
+      startedAt: z.string(),
+      stageStartedAt: z.string(),
+      completedAt: optional(z.string()),
+    })
+  ),
+  model: optional(proposedModel),
+  qualityScore: optional(z.number()),
+  error: optional(z.union([z.string(), processingError])),
+  message: optional(z.string()),
+  clarification: optional(clarificationState),
+  validationErrors: optional(z.array(validationError)),
+  validationWarnings: optional(z.array(validationWarning)),
+  fileCount: optional(z.number()),
+})
+
+export const readyStatusSchema: z.ZodType<ReadyStatus> = z.looseObject({
+  ready: z.boolean(),
+  organizationName: z.string(),
+  businessType: z.string(),
+  industry: z.string(),
+  qualityScore: optional(z.number()),
+  completedAt: optional(z.string()),
+  dataSources: z.looseObject({
+    total: z.number(),
+    ready: z.number(),
+    tables: z.array(z.string()),
+  }),
+  chatbot: z.looseObject({
+    available: z.boolean(),
+    endpoint: optional(z.string()),
+    suggestedQuestions: z.array(z.string()),
+  }),
+})
+
+export const questionsResponseSchema = z.looseObject({
+  questions: z.array(wizardQuestion),
+  totalSteps: z.number(),
+  stepTitles: z.array(z.string()),
+})
+
+export const planResponseSchema = z.looseObject({
+  success: z.boolean(),
+  plan: onboardingPlan,
+  summary: z.record(z.string(), z.unknown()),
+})
+
+export const startProcessingResponseSchema = z.looseObject({
+  success: z.boolean(),
+  stateId: z.string(),
+  status: z.string(),
+  message: z.string(),
+  model: proposedModel,
+})
+
+export const confirmModelResponseSchema = z.looseObject({
+  success: z.boolean(),
+  message: z.string(),
+  status: z.string(),
+  stageInfo,
+})
+
+// Retry, continue and replace answer with the processing status they lead to
+export const processingActionResponseSchema = z.looseObject({
+  success: z.boolean(),
+  message: optional(z.string()),
+  status: processingStatusSchema,
+})
+
+export const stagesResponseSchema = z.looseObject({
+  stages: z.array(z.intersection(stageInfo, z.looseObject({ id: z.string() }))),
+})
+
+export const signDpaResponseSchema = z.looseObject({
+  success: z.boolean(),
+  signedAt: z.string(),
+  message: z.string(),
+})
+
+export const suggestedQuestionsResponseSchema = z.looseObject({
+  suggestions: z.array(z.string()),
+  businessType: z.string(),
+})
+
+export const recalculateQualityResponseSchema = z.looseObject({
+  success: z.boolean(),
+  previousScore: z.number(),
+  newScore: z.number(),
+  breakdown: z.looseObject({
+    schemaUnderstanding: z.number(),
+    terminologyCoverage: z.number(),
+    queryValidation: z.number(),
+    relationshipConfidence: z.number(),
+  }),
+  isReady: z.boolean(),
+  issues: z.array(z.string()),
+  validatedQueries: z.number(),
+  totalQueries: z.number(),
+})
+
+export const clarificationQuestionsResponseSchema = z.looseObject({
+  success: z.boolean(),
+  reason: clarificationReason,
+  qualityScore: optional(z.number()),
+  llmConfidence: optional(z.number()),
+  questions: z.array(clarificationQuestion),
+  pendingCount: z.number(),
+  answeredCount: z.number(),
+})
+
+export const clarificationSubmitResponseSchema = z.looseObject({
+  success: z.boolean(),
+  message: z.string(),
+  improved: z.boolean(),
+  previousScore: optional(z.number()),
+  newScore: optional(z.number()),
+  nextStage: z.string(),
+})
+
+export const clarificationSkipResponseSchema = z.looseObject({
+  success: z.boolean(),
+  message: z.string(),
+  qualityScore: optional(z.number()),
+  warning: optional(z.string()),
+  nextStage: z.string(),
+})
+
+// ============================================
+// Chat
+// ============================================
+
+// Rows of a streamed 'data' event
+export const chatRowsSchema = resultRows
+
+export const chatResponseSchema: z.ZodType<ChatResponse> = z.looseObject({
+  success: z.boolean(),
+  answer: z.string(),
+  sql: optional(z.string()),
+  data: optional(resultRows),
+  confidence: optional(z.number()),
+  conversationId: z.string(),
+  tokens: optional(tokens),
+  costUsd: optional(z.number()),
+  source: optional(z.string()),
+})
+
+// ============================================
+// Conversations
+// ============================================
+
+const conversation: z.ZodType<Conversation> = z.looseObject({
+  id: z.string(),
+  title: z.string().nullable(),
+  messageCount: z.number(),
+  totalTokens: z.number(),
+  totalCostUsd: z.number(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+})
+
+const conversationDetail: z.ZodType<ConversationDetail> = z.looseObject({
+  id: z.string(),
+  title: z.string().nullable(),
+  dataSourceId: optional(z.string()),
+  totalTokensInput: z.number(),
+  totalTokensOutput: z.number(),
+  totalCostUsd: z.number(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+})
+
+const conversationMessage: z.ZodType<ConversationMessage> = z.looseObject({
+  id: z.string(),
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  sql: optional(z.string()),
+  data: optional(resultRows),
+  source: optional(z.string()),
+  tokens,
+  costUsd: z.number(),
+  model: optional(z.string()),
+  provider: optional(z.string()),
+  createdAt: z.string(),
+})
+
+const conversationStats: z.ZodType<ConversationStats> = z.looseObject({
+  totalConversations: z.number(),
+  totalMessages: z.number(),
+  totalTokens: z.number(),
+  totalCostUsd: z.number(),
+  averageTokensPerConversation: z.number(),
+})
+
+export const conversationListResponseSchema = z.looseObject({
+  conversations: z.array(conversation),
+  pagination: z.looseObject({ limit: z.number(), offset: z.number(), hasMore: z.boolean() }),
+})
+
+export const conversationResponseSchema = z.looseObject({
+  conversation: conversationDetail,
+  messages: z.array(conversationMessage),
+})
+
+export const createConversationResponseSchema = z.looseObject({
+  success: z.boolean(),
+  conversation: z.looseObject({ id: z.string(), title: z.string().nullable(), createdAt: z.string() }),
+})
+
+export const updateTitleResponseSchema = z.looseObject({
+  success: z.boolean(),
+  title: z.string(),
+})
+
+export const conversationStatsResponseSchema = z.looseObject({
+  stats: conversationStats,
+})
+
+const usageBreakdown: z.ZodType<UsageBreakdown> = z.looseObject({
+  byModel: z.array(
+    z.looseObject({
+      model: z.string(),
+      provider: z.string(),
+      messages: z.number(),
+      tokens: z.number(),
+      costUsd: z.number(),
+    })
+  ),
+  byDay: z.array(
+    z.looseObject({
+      date: z.string(),
+      costUsd: z.number(),
+      tokens: z.number(),
+      messages: z.number(),
+    })
+  ),
+})
+
+export const usageBreakdownResponseSchema = z.looseObject({
+  usage: usageBreakdown,
+})
+
+// ============================================
+// Auth
+// ============================================
+
+const user: z.ZodType<User> = z.looseObject({
+  id: z.string(),
+  email: z.string(),
+  name: z.string(),
+  emailVerified: optional(z.boolean()),
+})
+
+const orgRole = z.enum(['owner', 'admin', 'analyst', 'viewer'])
+
+const organization: z.ZodType<Organization> = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  onboardingStatus: optional(z.string()),
+  role: optional(orgRole),
+})
+
+export const authResponseSchema = z.looseObject({
+  token: z.string(),
+  refreshToken: optional(z.string()),
+  user,
+})
+
+export const refreshResponseSchema = z.looseObject({
+  token: z.string(),
+  refreshToken: optional(z.string()),
+})
+
+export const meResponseSchema = z.looseObject({
+  user,
+  organization: organization.nullable(),
+  organizations: optional(z.array(organization)),
+})
+
+const ssoProvider: z.ZodType<SsoProvider> = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  kind: z.enum(['google', 'microsoft', 'oidc']),
+  authorizationEndpoint: z.string(),
+  clientId: z.string(),
+  scopes: z.array(z.string()),
+})
+
+export const ssoProvidersResponseSchema = z.looseObject({
+  providers: z.array(ssoProvider),
+})
+
+export const ssoDiscoverySchema: z.ZodType<SsoDiscovery> = z.looseObject({
+  ssoRequired: z.boolean(),
+  provider: optional(ssoProvider),
+})
+
+// ============================================
+// Organization
+// ============================================
+
+const orgMember: z.ZodType<OrgMember> = z.looseObject({
+  id: z.string(),
+  userId: z.string(),
+  email: z.string(),
+  name: z.string(),
+  role: orgRole,
+  joinedAt: z.string(),
+})
+
+const orgInvitation: z.ZodType<OrgInvitation> = z.looseObject({
+  id: z.string(),
+  email: z.string(),
+  role: orgRole,
+  invitedBy: optional(z.string()),
+  createdAt: z.string(),
+  expiresAt: z.string(),
+})
+
+export const membersResponseSchema = z.looseObject({
+  members: z.array(orgMember),
+})
+
+export const memberResponseSchema = z.looseObject({
+  member: orgMember,
+})
+
+export const invitationsResponseSchema = z.looseObject({
+  invitations: z.array(orgInvitation),
+})
+
+export const invitationResponseSchema = z.looseObject({
+  invitation: orgInvitation,
+})
+
+export const invitationDetailsSchema: z.ZodType<InvitationDetails> = z.looseObject({
+  organizationName: z.string(),
+  email: z.string(),
+  role: orgRole,
+  invitedByName: optional(z.string()),
+  expiresAt: z.string(),
+})
+
+// ============================================
+// Uploads
+// ============================================
+
+const uploadSession: z.ZodType<UploadSession> = z.looseObject({
+  id: z.string(),
+  fileName: z.string(),
+  size: z.number(),
+  offset: z.number(),
+  chunkSize: optional(z.number()),
+  expiresAt: optional(z.string()),
+})
+
+export const uploadSessionResponseSchema = z.looseObject({
+  upload: uploadSession,
+})
+
+// ============================================
+// Data Sources
+// ============================================
+
+const dataSource: z.ZodType<DataSource> = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  type: z.enum(['excel', 'csv', 'pdf', 'docx', 'doc', 'postgresql', 'mysql', 'sqlserver', 'agent']),
+  status: z.enum(['pending', 'processing', 'ready', 'error', 'syncing']),
+  originalFilename: optional(z.string()),
+  sizeBytes: optional(z.number()),
+  rowCount: optional(z.number()),
+  errorMessage: optional(z.string()),
+  createdAt: z.string(),
+  lastSyncAt: optional(z.string()),
+})
+
+export const dataSourceListResponseSchema = z.looseObject({
+  dataSources: z.array(dataSource),
+})
+
+export const dataSourceResponseSchema = z.looseObject({
+  dataSource,
+})
+
+export const dataSourcePreviewSchema: z.ZodType<DataSourcePreview> = z.looseObject({
+  dataSourceId: z.string(),
+  tableName: z.string(),
+  columns: z.array(
+    z.looseObject({ name: z.string(), type: z.string(), semanticType: optional(z.string()) })
+  ),
+  rows: z.array(z.record(z.string(), z.union([z.string(), z.number(), z.boolean(), z.null()]))),
+  totalRows: z.number(),
+  previewRows: z.number(),
+})
+
+export const documentContentSchema: z.ZodType<DocumentContent> = z.looseObject({
+  dataSourceId: z.string(),
+  documentId: z.string(),
+  name: z.string(),
+  type: z.string(),
+  category: optional(z.string()),
+  status: z.string(),
+  content: z.looseObject({
+    rawText: optional(z.string()),
+    summary: optional(z.string()),
+    structuredData: optional(z.record(z.string(), z.unknown())),
+    extractedEntities: optional(
+      z.array(z.union([z.string(), z.looseObject({ name: optional(z.string()), value: optional(z.string()) })]))
+    ),
+    extractedTables: optional(z.array(z.unknown())),
+  }),
+  wordCount: z.number(),
+  createdAt: z.string(),
+})
+
+const schemaColumn: z.ZodType<SchemaColumn> = z.looseObject({
+  name: z.string(),
+  type: z.string(),
+  semanticType: optional(z.string()),
+  nullable: optional(z.boolean()),
+  isPrimaryKey: optional(z.boolean()),
+  isForeignKey: optional(z.boolean()),
+})
+
+const schemaRelationship: z.ZodType<SchemaRelationship> = z.looseObject({
+  fromTable: z.string(),
+  fromColumn: z.string(),
+  toTable: z.string(),
+  toColumn: z.string(),
+  type: optional(z.string()),
+  confidence: optional(z.number()),
+})
+
+const piiColumn: z.ZodType<PiiColumn> = z.looseObject({
+  table: z.string(),
+  column: z.string(),
+  piiType: optional(z.string()),
+})
+
+export const dataSourceSchemaSchema: z.ZodType<DataSourceSchema> = z.looseObject({
+  schema: z.record(z.string(), z.array(schemaColumn)),
+  relationships: z.array(schemaRelationship),
+  piiColumns: z.array(piiColumn),
+  rowCount: z.number(),
+})
@@ -0,0 +1,474 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  ApiError,
+  chatApi,
+  conversationsApi,
+  onboardingApi,
+  setActiveOrganizationId,
+  setUnauthorizedHandler,
+  type ProcessingStatus,
+} from './api'
+
+const STATUS = { hasProcessing: false }
+const CREATED = { success: true, conversation: { id: 'conv-1', title: null, createdAt: '2025-01-01T00:00:00Z' } }
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } })
+}
+
+// A fetch that only settles when its request is aborted
+function hangingFetch(_url: string, init: RequestInit) {
+  return new Promise<Response>((_, reject) => {
+    init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+  })
+}
+
+// An open event stream the test writes to. Aborting the request errors the
+// body, as a real fetch does.
+function sseStream(init: RequestInit) {
+  const encoder = new TextEncoder()
+  let stream!: ReadableStreamDefaultController<Uint8Array>
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      stream = controller
+      init.signal?.addEventListener('abort', () => controller.error(new DOMException('Aborted', 'AbortError')))
+    },
+  })
+  return {
+    response: new Response(body, { headers: { 'Content-Type': 'text/event-stream' } }),
+    send: (chunk: string) => stream.enqueue(encoder.encode(chunk)),
+    close: () => stream.close(),
+  }
+}
+
+// An event stream that sends these chunks and then closes, or stays open when asked to
+function sseResponse(init: RequestInit, chunks: string[], { keepOpen = false } = {}) {
+  const stream = sseStream(init)
+  chunks.forEach(stream.send)
+  if (!keepOpen) stream.close()
+  return stream.response
+}
+
+const fetchMock = vi.fn<(url: string, init: RequestInit) => Promise<Response>>()
+
+function sentHeaders(call: number) {
+  return fetchMock.mock.calls[call][1].headers as Record<string, string>
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.stubGlobal('fetch', fetchMock)
+})
+
+afterEach(() => {
+  fetchMock.mockReset()
+  vi.unstubAllGlobals()
+  vi.useRealTimers()
+  setUnauthorizedHandler(null)
+  setActiveOrganizationId(null)
+})
+
+describe('request', () => {
+  it('sends the token and active organization and validates the response', async () => {
+    setActiveOrganizationId('org-1')
+    fetchMock.mockResolvedValueOnce(jsonResponse(STATUS))
+
+    await expect(onboardingApi.getProcessingStatus('token-1')).resolves.toEqual(STATUS)
+    expect(fetchMock.mock.calls[0][0]).toMatch(/\/onboarding\/process\/status$/)
+    expect(sentHeaders(0)).toMatchObject({
+      'Authorization': 'Bearer token-1',
+      'X-Organization-Id': 'org-1',
+      'Content-Type': 'application/json',
+    })
+  })
+
+  it('rejects a response that does not match its schema', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ hasProcessing: 'yes' }))
+
+    await expect(onboardingApi.getProcessingStatus('token-1')).rejects.toMatchObject({
+      status: 200,
+      code: 'InvalidResponse',
+      path: 'hasProcessing',
+    })
+  })
+
+  it('maps error bodies to ApiError', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ error: 'NotFound', message: 'No existe' }, 404))
+
+    const error = await onboardingApi.getProcessingStatus('token-1').catch((err) => err)
+    expect(error).toBeInstanceOf(ApiError)
+    expect(error).toMatchObject({ status: 404, code: 'NotFound', message: 'No existe' })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('resolves an empty 204 response', async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 204 }))
+
+    await expect(conversationsApi.delete('token-1', 'conv-1')).resolves.toEqual({ success: true, message: '' })
+  })
+
+  it('surfaces an HTML error page as an ApiError with its status', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('<html><body>Bad Gateway</body></html>', {
+      status: 502,
+      statusText: 'Bad Gateway',
+      headers: { 'Content-Type': 'text/html' },
+    }))
+
+    const error = await conversationsApi.create('token-1').catch((err) => err)
+    expect(error).toBeInstanceOf(ApiError)
+    expect(error).toMatchObject({ status: 502, code: 'UnknownError', message: 'Bad Gateway' })
+  })
+
+  it('rejects a non-JSON success body against its schema', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('OK', { status: 200, headers: { 'Content-Type': 'text/plain' } }))
+
+    await expect(onboardingApi.getProcessingStatus('token-1')).rejects.toMatchObject({
+      status: 200,
+      code: 'InvalidResponse',
+    })
+  })
+
+  describe('retries', () => {
+    it('retries idempotent requests on server errors with backoff', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({}, 502))
+        .mockResolvedValueOnce(jsonResponse({}, 503))
+        .mockResolvedValueOnce(jsonResponse(STATUS))
+
+      const result = onboardingApi.getProcessingStatus('token-1')
+      await vi.advanceTimersByTimeAsync(0)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+
+      // First backoff is 500ms plus up to 50% jitter
+      await vi.advanceTimersByTimeAsync(499)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      await vi.advanceTimersByTimeAsync(251)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+
+      await vi.runAllTimersAsync()
+      await expect(result).resolves.toEqual(STATUS)
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+    })
+
+    it('gives up after the last retry', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({ error: 'Unavailable' }, 500))
+
+      const result = expect(onboardingApi.getProcessingStatus('token-1')).rejects.toMatchObject({ status: 500 })
+      await vi.runAllTimersAsync()
+      await result
+      expect(fetchMock).toHaveBeenCalledTimes(4)
+    })
+
+    it('retries network failures on idempotent requests', async () => {
+      fetchMock
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(jsonResponse(STATUS))
+
+      const result = onboardingApi.getProcessingStatus('token-1')
+      await vi.runAllTimersAsync()
+      await expect(result).resolves.toEqual(STATUS)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('does not retry non-idempotent requests on server errors', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ error: 'Internal' }, 500))
+
+      await expect(conversationsApi.create('token-1')).rejects.toMatchObject({ status: 500 })
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('retries non-idempotent requests when the server asks to back off', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({}, 429, { 'Retry-After': '2' }))
+        .mockResolvedValueOnce(jsonResponse(CREATED))
+
+      const result = conversationsApi.create('token-1')
+      await vi.advanceTimersByTimeAsync(1999)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      await vi.advanceTimersByTimeAsync(1)
+      await expect(result).resolves.toEqual(CREATED)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('accepts Retry-After as an HTTP date', async () => {
+      vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({}, 503, { 'Retry-After': 'Wed, 01 Jan 2025 00:00:03 GMT' }))
+        .mockResolvedValueOnce(jsonResponse(STATUS))
+
+      const result = onboardingApi.getProcessingStatus('token-1')
+      await vi.advanceTimersByTimeAsync(2999)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      await vi.advanceTimersByTimeAsync(1)
+      await expect(result).resolves.toEqual(STATUS)
+    })
+
+    it('fails right away when Retry-After is longer than we wait', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse({ error: 'RateLimited' }, 429, { 'Retry-After': '60' }))
+
+      await expect(onboardingApi.getProcessingStatus('token-1')).rejects.toMatchObject({
+        status: 429,
+        code: 'RateLimited',
+      })
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('timeouts and aborts', () => {
+    it('turns a stalled request into a Timeout error', async () => {
+      fetchMock.mockImplementation(hangingFetch)
+
+      const result = expect(conversationsApi.create('token-1', undefined, undefined, { timeoutMs: 1000 }))
+        .rejects.toMatchObject({ status: 0, code: 'Timeout' })
+      await vi.advanceTimersByTimeAsync(1000)
+      await result
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('retries timed out idempotent requests', async () => {
+      fetchMock
+        .mockImplementationOnce(hangingFetch)
+        .mockResolvedValueOnce(jsonResponse(STATUS))
+
+      const result = onboardingApi.getProcessingStatus('token-1', { timeoutMs: 1000 })
+      await vi.runAllTimersAsync()
+      await expect(result).resolves.toEqual(STATUS)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('passes caller aborts through without retrying', async () => {
+      fetchMock.mockImplementation(hangingFetch)
+      const controller = new AbortController()
+
+      const result = onboardingApi.getProcessingStatus('token-1', { signal: controller.signal })
+      await vi.advanceTimersByTimeAsync(0)
+      controller.abort()
+
+      await expect(result).rejects.not.toBeInstanceOf(ApiError)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('stops waiting for a retry when the caller aborts', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({}, 503))
+      const controller = new AbortController()
+
+      const result = onboardingApi.getProcessingStatus('token-1', { signal: controller.signal })
+      await vi.advanceTimersByTimeAsync(0)
+      controller.abort()
+
+      await expect(result).rejects.not.toBeInstanceOf(ApiError)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('401 handling', () => {
+    it('replays the request once with a renewed token', async () => {
+      const handler = vi.fn(async () => 'token-2')
+      setUnauthorizedHandler(handler)
+      // The headers object is reused between attempts: record each as sent
+      const authorizations: string[] = []
+      fetchMock.mockImplementation(async (_url, init) => {
+        authorizations.push((init.headers as Record<string, string>)['Authorization'])
+        return authorizations.length === 1 ? jsonResponse({ error: 'Unauthorized' }, 401) : jsonResponse(CREATED)
+      })
+
+      await expect(conversationsApi.create('token-1')).resolves.toEqual(CREATED)
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(authorizations).toEqual(['Bearer token-1', 'Bearer token-2'])
+    })
+
+    it('does not renew twice for the same request', async () => {
+      const handler = vi.fn(async () => 'token-2')
+      setUnauthorizedHandler(handler)
+      fetchMock.mockImplementation(async () => jsonResponse({ error: 'Unauthorized', message: 'Nope' }, 401))
+
+      await expect(onboardingApi.getProcessingStatus('token-1')).rejects.toMatchObject({ status: 401, code: 'Unauthorized' })
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('fails with SessionExpired when the session cannot be renewed', async () => {
+      setUnauthorizedHandler(async () => null)
+      fetchMock.mockResolvedValueOnce(jsonResponse({ error: 'Unauthorized' }, 401))
+
+      await expect(onboardingApi.getProcessingStatus('token-1')).rejects.toMatchObject({
+        status: 401,
+        code: 'SessionExpired',
+      })
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('leaves unauthenticated requests alone', async () => {
+      const handler = vi.fn(async () => 'token-2')
+      setUnauthorizedHandler(handler)
+      fetchMock.mockResolvedValueOnce(jsonResponse({ error: 'InvalidCredentials' }, 401))
+
+      await expect(onboardingApi.getProcessingStatus('')).rejects.toMatchObject({ code: 'InvalidCredentials' })
+      expect(handler).not.toHaveBeenCalled()
+    })
+  })
+})
+
+describe('onboardingApi.streamProcessingStatus', () => {
+  it('delivers each status event', async () => {
+    fetchMock.mockImplementation(async (_url, init) => sseResponse(init, [
+      'event: status\ndata: {"hasProcessing":true,"stage":"analysis"}\n\n',
+      'event: status\ndata: {"hasProcessing":true,"stage":"ready"}\n\n',
+    ]))
+    const received: ProcessingStatus[] = []
+
+    await onboardingApi.streamProcessingStatus('token-1', (status) => received.push(status))
+    expect(received.map((status) => status.stage)).toEqual(['analysis', 'ready'])
+  })
+
+  it('reports servers that do not stream', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(STATUS))
+
+    await expect(onboardingApi.streamProcessingStatus('token-1', () => {})).rejects.toMatchObject({
+      code: 'StreamUnavailable',
+    })
+  })
+
+  it('times out a stream that goes quiet without closing', async () => {
+    fetchMock.mockImplementation(async (_url, init) => sseResponse(init, [
+      'event: status\ndata: {"hasProcessing":true,"stage":"analysis"}\n\n',
+    ], { keepOpen: true }))
+    const onStatus = vi.fn()
+
+    const result = expect(onboardingApi.streamProcessingStatus('token-1', onStatus))
+      .rejects.toMatchObject({ status: 0, code: 'Timeout' })
+    await vi.advanceTimersByTimeAsync(45_000)
+    await result
+    expect(onStatus).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps a stream with heartbeats open', async () => {
+    let stream!: ReturnType<typeof sseStream>
+    fetchMock.mockImplementation(async (_url, init) => {
+      stream = sseStream(init)
+      return stream.response
+    })
+
+    const result = onboardingApi.streamProcessingStatus('token-1', () => {})
+    for (let i = 0; i < 3; i++) {
+      await vi.advanceTimersByTimeAsync(30_000)
+      stream.send(': ping\n\n')
+    }
+    stream.close()
+    await expect(result).resolves.toBeUndefined()
+  })
+})
+
+describe('chatApi.askStream', () => {
+  const DONE = 'event: done\ndata: {"conversationId":"conv-1","tokens":{"input":10,"output":5}}\n\n'
+
+  function handlers() {
+    return { onText: vi.fn(), onSql: vi.fn(), onData: vi.fn(), onConversation: vi.fn() }
+  }
+
+  it('delivers token, sql, data and done events', async () => {
+    fetchMock.mockImplementation(async (_url, init) => sseResponse(init, [
+      'event: token\ndata: {"text":"Vendiste "}\n\n',
+      'event: token\ndata: {"text":"$1,200"}\n\n',
+      'event: sql\ndata: {"sql":"SELECT 1"}\n\n',
+      'event: data\ndata: {"rows":[{"total":1200}]}\n\n',
+      DONE,
+    ]))
+    const on = handlers()
+
+    const result = await chatApi.askStream('token-1', '¿Ventas?', undefined, on)
+    expect(on.onText.mock.calls.map((call) => call[0])).toEqual(['Vendiste ', '$1,200'])
+    expect(on.onSql).toHaveBeenCalledWith('SELECT 1')
+    expect(on.onData).toHaveBeenCalledWith([{ total: 1200 }])
+    expect(on.onConversation).toHaveBeenCalledWith('conv-1')
+    expect(result).toMatchObject({
+      answer: 'Vendiste $1,200',
+      sql: 'SELECT 1',
+      data: [{ total: 1200 }],
+      conversationId: 'conv-1',
+      tokens: { input: 10, output: 5 },
+    })
+  })
+
+  it('reassembles events split across chunks', async () => {
+    fetchMock.mockImplementation(async (_url, init) => sseResponse(init, [
+      'event: tok',
+      'en\ndata: {"text":"Ho',
+      'la"}\r\n\r',
+      '\nevent: done\ndata: {"conversationId":"conv-1"}',
+    ]))
+    const on = handlers()
+
+    const result = await chatApi.askStream('token-1', 'Hola', undefined, on)
+    expect(on.onText).toHaveBeenCalledWith('Hola')
+    expect(result).toMatchObject({ answer: 'Hola', conversationId: 'conv-1' })
+  })
+
+  it('throws the error event as an ApiError', async () => {
+    fetchMock.mockImplementation(async (_url, init) => sseResponse(init, [
+      'event: token\ndata: {"text":"Par"}\n\n',
+      'event: error\ndata: {"error":"QueryFailed","message":"La consulta falló"}\n\n',
+    ]))
+
+    await expect(chatApi.askStream('token-1', '¿Ventas?', undefined)).rejects.toMatchObject({
+      code: 'QueryFailed',
+      message: 'La consulta falló',
+    })
+  })
+
+  it('rejects data rows that are not objects', async () => {
+    fetchMock.mockImplementation(async (_url, init) => sseResponse(init, [
+      'event: data\ndata: {"rows":[1,2]}\n\n',
+      DONE,
+    ]))
+    const on = handlers()
+
+    await expect(chatApi.askStream('token-1', '¿Ventas?', undefined, on)).rejects.toMatchObject({
+      code: 'InvalidResponse',
+    })
+    expect(on.onData).not.toHaveBeenCalled()
+  })
+
+  it('falls back to the JSON response when the server does not stream', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({
+      success: true,
+      answer: 'Vendiste $1,200',
+      sql: 'SELECT 1',
+      data: [{ total: 1200 }],
+      conversationId: 'conv-1',
+    }))
+    const on = handlers()
+
+    const result = await chatApi.askStream('token-1', '¿Ventas?', undefined, on)
+    expect(on.onText).toHaveBeenCalledWith('Vendiste $1,200')
+    expect(on.onSql).toHaveBeenCalledWith('SELECT 1')
+    expect(on.onData).toHaveBeenCalledWith([{ total: 1200 }])
+    expect(result.conversationId).toBe('conv-1')
+  })
+
+  it('stops when the caller aborts', async () => {
+    fetchMock.mockImplementation(async (_url, init) => sseResponse(init, [
+      'event: token\ndata: {"text":"Par"}\n\n',
+    ], { keepOpen: true }))
+    const controller = new AbortController()
+    const on = handlers()
+
+    const result = chatApi.askStream('token-1', '¿Ventas?', undefined, on, controller.signal)
+    await vi.advanceTimersByTimeAsync(0)
+    expect(on.onText).toHaveBeenCalledWith('Par')
+    controller.abort()
+
+    await expect(result).rejects.not.toBeInstanceOf(ApiError)
+  })
+
+  it('times out when the stream goes quiet', async () => {
+    fetchMock.mockImplementation(async (_url, init) => sseResponse(init, [
+      'event: token\ndata: {"text":"Par"}\n\n',
+    ], { keepOpen: true }))
+
+    const result = expect(chatApi.askStream('token-1', '¿Ventas?', undefined))
+      .rejects.toMatchObject({ status: 0, code: 'Timeout' })
+    await vi.advanceTimersByTimeAsync(120_000)
+    await result
+  })
+})
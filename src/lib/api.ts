@@ -1,29 +1,242 @@
 /**
  * API Client for IAvoqado Backend
+ *
+ * Every response is validated at runtime against its schema in ./api-schemas;
+ * a mismatch throws an ApiError with code 'InvalidResponse' and the failing path.
  */
 
+import type { z } from 'zod'
+import {
+  processingStatusSchema,
+  readyStatusSchema,
+  questionsResponseSchema,
+  planResponseSchema,
+  startProcessingResponseSchema,
+  confirmModelResponseSchema,
+  processingActionResponseSchema,
+  stagesResponseSchema,
+  signDpaResponseSchema,
+  suggestedQuestionsResponseSchema,
+  recalculateQualityResponseSchema,
+  clarificationQuestionsResponseSchema,
+  clarificationSubmitResponseSchema,
+  clarificationSkipResponseSchema,
+  chatResponseSchema,
+  chatRowsSchema,
+  conversationListResponseSchema,
+  conversationResponseSchema,
+  createConversationResponseSchema,
+  updateTitleResponseSchema,
+  conversationStatsResponseSchema,
+  usageBreakdownResponseSchema,
+  successResponseSchema,
+  authResponseSchema,
+  refreshResponseSchema,
+  meResponseSchema,
+  ssoProvidersResponseSchema,
+  ssoDiscoverySchema,
+  membersResponseSchema,
+  memberResponseSchema,
+  invitationsResponseSchema,
+  invitationResponseSchema,
+  invitationDetailsSchema,
+  uploadSessionResponseSchema,
+  dataSourceListResponseSchema,
+  dataSourceResponseSchema,
+  dataSourcePreviewSchema,
+  documentContentSchema,
+  dataSourceSchemaSchema,
+} from './api-schemas'
+
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000/api/v1'
 
+const DEFAULT_TIMEOUT_MS = 30_000
+const CHAT_TIMEOUT_MS = 120_000
+const UPLOAD_TIMEOUT_MS = 300_000
+const CHUNK_TIMEOUT_MS = 120_000
+// A status stream quiet for this long (no event or heartbeat) is considered stalled
+const STATUS_STREAM_IDLE_MS = 45_000
+const MAX_RETRIES = 3
+const RETRY_BASE_DELAY_MS = 500
+const MAX_RETRY_DELAY_MS = 10_000
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS']
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504]
+
+// Per-call options accepted by every API method
+export interface CallOptions {
+  signal?: AbortSignal
+  timeoutMs?: number
+}
+
 interface RequestOptions extends RequestInit {
   token?: string
+  timeoutMs?: number
 }
 
 class ApiError extends Error {
   constructor(
     public status: number,
     public code: string,
-    message: string
+    message: string,
+    // Dotted path of the first mismatch for 'InvalidResponse' errors
+    public path?: string
   ) {
     super(message)
     this.name = 'ApiError'
   }
 }
 
+// "questions[0].type" style path for a validation issue
+function formatIssuePath(path: PropertyKey[]): string {
+  return path.reduce<string>((result, key) => {
+    if (typeof key === 'number') return `${result}[${key}]`
+    return result ? `${result}.${String(key)}` : String(key)
+  }, '')
+}
+
+function parseResponse<T>(endpoint: string, status: number, schema: z.ZodType<T>, data: unknown): T {
+  const result = schema.safeParse(data)
+  if (result.success) return result.data
+
+  const issue = result.error.issues[0]
+  const path = formatIssuePath(issue.path) || '(root)'
+  throw new ApiError(
+    status,
+    'InvalidResponse',
+    `Invalid response from ${endpoint} at ${path}: ${issue.message}`,
+    path
+  )
+}
+
+// Called when an authenticated request gets a 401. Resolves to a fresh access
+// token to retry with, or null when the session can't be renewed.
+type UnauthorizedHandler = () => Promise<string | null>
+
+let unauthorizedHandler: UnauthorizedHandler | null = null
+
+export function setUnauthorizedHandler(handler: UnauthorizedHandler | null) {
+  unauthorizedHandler = handler
+}
+
+// Organization the session acts on, for users who belong to several. Sent
+// with every request so the backend scopes data to it.
+const ORGANIZATION_HEADER = 'X-Organization-Id'
+
+let activeOrganizationId: string | null = null
+
+export function setActiveOrganizationId(organizationId: string | null) {
+  activeOrganizationId = organizationId
+}
+
+export function getActiveOrganizationId(): string | null {
+  return activeOrganizationId
+}
+
+// Idempotent requests retry on any transient failure; others only when the
+// server explicitly asked us to back off, since it did not process them
+function shouldRetry(method: string, status?: number): boolean {
+  if (!IDEMPOTENT_METHODS.includes(method)) return status === 429 || status === 503
+  return status === undefined || RETRYABLE_STATUSES.includes(status)
+}
+
+// Exponential backoff with jitter, or the server's Retry-After (seconds or
+// HTTP date). Returns null when the server wants us to wait longer than we will.
+function retryDelay(attempt: number, response?: Response): number | null {
+  const retryAfter = response?.headers.get('Retry-After')
+  if (retryAfter) {
+    const seconds = Number(retryAfter)
+    const delay = Number.isNaN(seconds) ? new Date(retryAfter).getTime() - Date.now() : seconds * 1000
+    if (!Number.isNaN(delay)) return delay > MAX_RETRY_DELAY_MS ? null : Math.max(delay, 0)
+  }
+
+  const backoff = RETRY_BASE_DELAY_MS * 2 ** attempt
+  return Math.min(backoff + Math.random() * backoff * 0.5, MAX_RETRY_DELAY_MS)
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// Empty bodies (e.g. 204) read as undefined, non-JSON bodies as their text
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text()
+  if (!text.trim()) return undefined
+
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+function toApiError(response: Response, data: unknown): ApiError {
+  const body = (typeof data === 'object' && data !== null ? data : {}) as { error?: string; message?: string }
+  return new ApiError(
+    response.status,
+    body.error || 'UnknownError',
+    body.message || response.statusText || 'An error occurred'
+  )
+}
+
+// One attempt: fetch and read the body under a single timeout. Caller aborts
+// propagate as-is; timeouts and network failures become ApiErrors.
+async function send(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal | null
+): Promise<{ response: Response; data: unknown }> {
+  const controller = new AbortController()
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeoutMs)
+  const onAbort = () => controller.abort(signal?.reason)
+
+  if (signal?.aborted) onAbort()
+  else signal?.addEventListener('abort', onAbort, { once: true })
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal })
+    const data = await readBody(response)
+    return { response, data }
+  } catch (error) {
+    if (signal?.aborted) throw error
+    if (timedOut) {
+      throw new ApiError(0, 'Timeout', `Request timed out after ${Math.round(timeoutMs / 1000)}s`)
+    }
+    throw new ApiError(0, 'NetworkError', error instanceof Error ? error.message : 'Network request failed')
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', onAbort)
+  }
+}
+
 async function request<T>(
   endpoint: string,
-  options: RequestOptions = {}
+  options: RequestOptions,
+  schema: z.ZodType<T>
 ): Promise<T> {
-  const { token, ...fetchOptions } = options
+  const { token, timeoutMs = DEFAULT_TIMEOUT_MS, signal, ...fetchOptions } = options
+  const method = (fetchOptions.method || 'GET').toUpperCase()
+  let reauthenticated = false
 
   const headers: Record<string, string> = {}
 
@@ -37,27 +250,48 @@ async function request<T>(
     headers['Authorization'] = `Bearer ${token}`
   }
 
-  // Don't set Content-Type for FormData (browser sets it with boundary)
-  if (!(fetchOptions.body instanceof FormData)) {
+  if (activeOrganizationId) {
+    headers[ORGANIZATION_HEADER] = activeOrganizationId
+  }
+
+  // Don't set Content-Type for FormData (browser sets it with boundary) or
+  // when the caller picked one
+  if (!(fetchOptions.body instanceof FormData) && !headers['Content-Type']) {
     headers['Content-Type'] = 'application/json'
   }
 
-  const response = await fetch(`${API_BASE}${endpoint}`, {
-    ...fetchOptions,
-    headers,
-  })
+  for (let attempt = 0; ; attempt++) {
+    let result: { response: Response; data: unknown }
+
+    try {
+      result = await send(`${API_BASE}${endpoint}`, { ...fetchOptions, headers }, timeoutMs, signal)
+    } catch (error) {
+      const delay = error instanceof ApiError && attempt < MAX_RETRIES && shouldRetry(method)
+        ? retryDelay(attempt)
+        : null
+      if (delay === null) throw error
+      await sleep(delay, signal)
+      continue
+    }
 
-  const data = await response.json()
+    const { response, data } = result
+    if (response.ok) return parseResponse(endpoint, response.status, schema, data)
 
-  if (!response.ok) {
-    throw new ApiError(
-      response.status,
-      data.error || 'UnknownError',
-      data.message || 'An error occurred'
-    )
-  }
+    // Expired token: renew once and replay the request with the new one
+    if (response.status === 401 && token && unauthorizedHandler && !reauthenticated) {
+      reauthenticated = true
+      const freshToken = await unauthorizedHandler()
+      if (!freshToken) throw new ApiError(401, 'SessionExpired', 'Session expired')
+      headers['Authorization'] = `Bearer ${freshToken}`
+      continue
+    }
 
-  return data as T
+    const delay = attempt < MAX_RETRIES && shouldRetry(method, response.status)
+      ? retryDelay(attempt, response)
+      : null
+    if (delay === null) throw toApiError(response, data)
+    await sleep(delay, signal)
+  }
 }
 
 // ============================================
@@ -70,6 +304,8 @@ export interface WizardQuestion {
   type: 'single' | 'multiple' | 'text'
   options?: { value: string; label: string }[]
   required: boolean
+  // Step the server groups the question under, in the order of stepTitles
+  step?: number
 }
 
 export interface WizardAnswers {
@@ -81,6 +317,8 @@ export interface WizardAnswers {
   update_frequency: string
   data_volume: string
   sample_questions?: string
+  // Answers to questions outside the fields above, keyed by question id
+  extra?: Record<string, string | string[]>
 }
 
 export interface OnboardingPlan {
@@ -143,6 +381,36 @@ export interface ProposedModel {
   }
 }
 
+export interface RelationshipRef {
+  fromTable: string
+  fromColumn: string
+  toTable: string
+  toColumn: string
+}
+
+// Relationship changes use the proposed (original) table and column names
+export interface RelationshipEdits {
+  removed: RelationshipRef[]
+  added: (RelationshipRef & { type: string })[]
+  typeChanges: (RelationshipRef & { type: string })[]
+}
+
+export interface ModelModifications {
+  tableRenames?: Record<string, string>
+  // Keyed by "table.column" using the proposed (original) names
+  columnRenames?: Record<string, string>
+  additionalTerminology?: { term: string; meaning: string }[]
+  // Detected terms the user rejected
+  removedTerminology?: string[]
+  relationshipEdits?: RelationshipEdits
+}
+
+// An uploaded file to analyze; `sheets` limits which workbook sheets are read
+export interface ProcessingFile {
+  uploadId: string
+  sheets?: string[]
+}
+
 export interface StageInfo {
   title: string
   description: string
@@ -209,6 +477,13 @@ export interface ValidationWarning {
   message: string
 }
 
+export interface ProcessingError {
+  // Stage that failed; processing can resume from it when retryable
+  stage?: string
+  message?: string
+  retryable?: boolean
+}
+
 export interface ProcessingStatus {
   hasProcessing: boolean
   stateId?: string
@@ -222,13 +497,15 @@ export interface ProcessingStatus {
   }
   model?: ProposedModel
   qualityScore?: number
-  error?: string | { stage?: string; message?: string; retryable?: boolean }
+  error?: string | ProcessingError
   message?: string
   // Clarification support
   clarification?: ClarificationState
   // Validation support
   validationErrors?: ValidationError[]
   validationWarnings?: ValidationWarning[]
+  // Files in this processing, including those that failed validation
+  fileCount?: number
 }
 
 export interface ReadyStatus {
@@ -252,54 +529,141 @@ export interface ReadyStatus {
 
 export const onboardingApi = {
   // Get wizard questions
-  getQuestions: (token: string) =>
+  getQuestions: (token: string, options?: CallOptions) =>
     request<{ questions: WizardQuestion[]; totalSteps: number; stepTitles: string[] }>(
       '/onboarding/questions',
-      { token }
+      { token, ...options },
+      questionsResponseSchema
     ),
 
   // Submit wizard answers and get plan
-  submitPlan: (token: string, answers: WizardAnswers) =>
-    request<{ success: boolean; plan: OnboardingPlan; summary: any }>(
+  submitPlan: (token: string, answers: WizardAnswers, options?: CallOptions) =>
+    request<{ success: boolean; plan: OnboardingPlan; summary: Record<string, unknown> }>(
       '/onboarding/plan',
       {
         method: 'POST',
         body: JSON.stringify(answers),
         token,
-      }
+        ...options,
+      },
+      planResponseSchema
     ),
 
-  // Start processing with file upload
-  startProcessing: async (token: string, files: File[]) => {
-    const formData = new FormData()
-    files.forEach((file) => formData.append('files', file))
-
-    return request<{
+  // Start processing files already sent through uploadsApi
+  startProcessing: (token: string, files: ProcessingFile[], options?: CallOptions) =>
+    request<{
       success: boolean
       stateId: string
       status: string
       message: string
       model: ProposedModel
-    }>('/onboarding/process/start', {
-      method: 'POST',
-      body: formData,
-      token,
-    })
-  },
+    }>(
+      '/onboarding/process/start',
+      {
+        method: 'POST',
+        body: JSON.stringify({ files }),
+        token,
+        // Analysis of large files runs before the response
+        timeoutMs: UPLOAD_TIMEOUT_MS,
+        ...options,
+      },
+      startProcessingResponseSchema
+    ),
 
   // Get processing status
-  getProcessingStatus: (token: string) =>
-    request<ProcessingStatus>('/onboarding/process/status', { token }),
+  getProcessingStatus: (token: string, options?: CallOptions) =>
+    request<ProcessingStatus>('/onboarding/process/status', { token, ...options }, processingStatusSchema),
+
+  // Receive status updates as Server-Sent Events. Resolves when the server
+  // closes the stream; throws StreamUnavailable when it doesn't stream, and a
+  // Timeout when it goes quiet without closing.
+  streamProcessingStatus: async (
+    token: string,
+    onStatus: (status: ProcessingStatus) => void,
+    signal?: AbortSignal
+  ): Promise<void> => {
+    const endpoint = '/onboarding/process/events'
+    const guard = streamGuard(STATUS_STREAM_IDLE_MS, signal)
+    const get = (accessToken: string) =>
+      fetch(`${API_BASE}${endpoint}`, {
+        headers: {
+          Accept: 'text/event-stream',
+          Authorization: `Bearer ${accessToken}`,
+          ...(activeOrganizationId ? { [ORGANIZATION_HEADER]: activeOrganizationId } : {}),
+        },
+        signal: guard.signal,
+      })
+
+    try {
+      let response = await get(token)
+
+      if (response.status === 401 && unauthorizedHandler) {
+        const freshToken = await unauthorizedHandler()
+        if (!freshToken) throw new ApiError(401, 'SessionExpired', 'Session expired')
+        response = await get(freshToken)
+      }
+
+      if (!response.ok) throw toApiError(response, await readBody(response))
+
+      const contentType = response.headers.get('content-type') || ''
+      if (!contentType.includes('text/event-stream') || !response.body) {
+        await response.body?.cancel()
+        throw new ApiError(response.status, 'StreamUnavailable', 'Status updates are not streamed')
+      }
+
+      // Heartbeats count as activity too: any chunk resets the idle timer
+      await readSseEvents(response.body, ({ event, data }) => {
+        if (event === 'status' || event === 'message') {
+          onStatus(parseResponse(endpoint, response.status, processingStatusSchema, data))
+        }
+      }, guard.touch)
+    } catch (error) {
+      throw guard.toError(error)
+    } finally {
+      guard.close()
+    }
+  },
+
+  // Run a failed processing again from the stage that failed
+  retryProcessing: (token: string, options?: CallOptions) =>
+    request<{ success: boolean; message?: string; status: ProcessingStatus }>(
+      '/onboarding/process/retry',
+      { method: 'POST', token, ...options },
+      processingActionResponseSchema
+    ),
+
+  // Drop the files that failed validation and process the rest
+  continueWithValidFiles: (token: string, excludeFileIds: string[], options?: CallOptions) =>
+    request<{ success: boolean; message?: string; status: ProcessingStatus }>(
+      '/onboarding/process/continue',
+      {
+        method: 'POST',
+        body: JSON.stringify({ excludeFileIds }),
+        token,
+        ...options,
+      },
+      processingActionResponseSchema
+    ),
+
+  // Swap a file that failed validation for a new upload and validate again
+  replaceFile: (token: string, fileId: string, file: ProcessingFile, options?: CallOptions) =>
+    request<{ success: boolean; message?: string; status: ProcessingStatus }>(
+      `/onboarding/process/files/${encodeURIComponent(fileId)}/replace`,
+      {
+        method: 'POST',
+        body: JSON.stringify(file),
+        token,
+        ...options,
+      },
+      processingActionResponseSchema
+    ),
 
   // Confirm model and continue
   confirmModel: (
     token: string,
     accept: boolean,
-    modifications?: {
-      tableRenames?: Record<string, string>
-      columnRenames?: Record<string, string>
-      additionalTerminology?: { term: string; meaning: string }[]
-    }
+    modifications?: ModelModifications,
+    options?: CallOptions
   ) =>
     request<{ success: boolean; message: string; status: string; stageInfo: StageInfo }>(
       '/onboarding/process/confirm',
@@ -307,33 +671,37 @@ export const onboardingApi = {
         method: 'POST',
         body: JSON.stringify({ accept, modifications }),
         token,
-      }
+        ...options,
+      },
+      confirmModelResponseSchema
     ),
 
   // Check if chatbot is ready
-  checkReady: (token: string) =>
-    request<ReadyStatus>('/onboarding/ready', { token }),
+  checkReady: (token: string, options?: CallOptions) =>
+    request<ReadyStatus>('/onboarding/ready', { token, ...options }, readyStatusSchema),
 
   // Get all stage labels
-  getStages: (token: string) =>
-    request<{ stages: (StageInfo & { id: string })[] }>('/onboarding/stages', { token }),
+  getStages: (token: string, options?: CallOptions) =>
+    request<{ stages: (StageInfo & { id: string })[] }>('/onboarding/stages', { token, ...options }, stagesResponseSchema),
 
   // Sign DPA
-  signDpa: (token: string) =>
+  signDpa: (token: string, options?: CallOptions) =>
     request<{ success: boolean; signedAt: string; message: string }>(
       '/onboarding/step/sign-dpa',
-      { method: 'POST', token }
+      { method: 'POST', token, ...options },
+      signDpaResponseSchema
     ),
 
   // Get suggested questions
-  getSuggestedQuestions: (token: string) =>
+  getSuggestedQuestions: (token: string, options?: CallOptions) =>
     request<{ suggestions: string[]; businessType: string }>(
       '/onboarding/suggested-questions',
-      { token }
+      { token, ...options },
+      suggestedQuestionsResponseSchema
     ),
 
   // Recalculate quality score
-  recalculateQuality: (token: string) =>
+  recalculateQuality: (token: string, options?: CallOptions) =>
     request<{
       success: boolean
       previousScore: number
@@ -348,14 +716,14 @@ export const onboardingApi = {
       issues: string[]
       validatedQueries: number
       totalQueries: number
-    }>('/onboarding/recalculate-quality', { method: 'POST', token }),
+    }>('/onboarding/recalculate-quality', { method: 'POST', token, ...options }, recalculateQualityResponseSchema),
 
   // ============================================
   // Clarification API
   // ============================================
 
   // Get clarification questions
-  getClarificationQuestions: (token: string) =>
+  getClarificationQuestions: (token: string, options?: CallOptions) =>
     request<{
       success: boolean
       reason: 'low_quality_score' | 'low_confidence' | 'both'
@@ -364,10 +732,10 @@ export const onboardingApi = {
       questions: ClarificationQuestion[]
       pendingCount: number
       answeredCount: number
-    }>('/onboarding/clarification/questions', { token }),
+    }>('/onboarding/clarification/questions', { token, ...options }, clarificationQuestionsResponseSchema),
 
   // Submit clarification answers
-  submitClarificationAnswers: (token: string, answers: ClarificationAnswer[]) =>
+  submitClarificationAnswers: (token: string, answers: ClarificationAnswer[], options?: CallOptions) =>
     request<{
       success: boolean
       message: string
@@ -375,21 +743,26 @@ export const onboardingApi = {
       previousScore?: number
       newScore?: number
       nextStage: string
-    }>('/onboarding/clarification/submit', {
-      method: 'POST',
-      body: JSON.stringify({ answers }),
-      token,
-    }),
+    }>(
+      '/onboarding/clarification/submit',
+      {
+        method: 'POST',
+        body: JSON.stringify({ answers }),
+        token,
+        ...options,
+      },
+      clarificationSubmitResponseSchema
+    ),
 
   // Skip clarification
-  skipClarification: (token: string) =>
+  skipClarification: (token: string, options?: CallOptions) =>
     request<{
       success: boolean
       message: string
       qualityScore?: number
       warning?: string
       nextStage: string
-    }>('/onboarding/clarification/skip', { method: 'POST', token }),
+    }>('/onboarding/clarification/skip', { method: 'POST', token, ...options }, clarificationSkipResponseSchema),
 }
 
 // ============================================
@@ -400,7 +773,7 @@ export interface ChatMessage {
   role: 'user' | 'assistant'
   content: string
   sql?: string
-  data?: any[]
+  data?: Record<string, unknown>[]
   error?: string
   timestamp: string
   tokens?: { input: number; output: number }
@@ -414,7 +787,7 @@ export interface ChatResponse {
   success: boolean
   answer: string
   sql?: string
-  data?: any[]
+  data?: Record<string, unknown>[]
   confidence?: number
   conversationId: string
   tokens?: { input: number; output: number }
@@ -422,14 +795,231 @@ export interface ChatResponse {
   source?: string
 }
 
+export interface ChatStreamHandlers {
+  onText?: (delta: string) => void
+  onSql?: (sql: string) => void
+  onData?: (rows: NonNullable<ChatResponse['data']>) => void
+  // As soon as the server names the conversation, so it survives a stopped answer
+  onConversation?: (conversationId: string) => void
+}
+
+type ChatStreamPayload = Partial<ChatResponse> & {
+  text?: string
+  rows?: ChatResponse['data']
+  error?: string
+  message?: string
+}
+
+// Parse one SSE block ("event: x\ndata: {...}") into its name and JSON payload
+function parseSseEvent(block: string): { event: string; data: unknown } | null {
+  let event = 'message'
+  const dataLines: string[] = []
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim()
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart())
+    }
+  }
+
+  if (dataLines.length === 0) return null
+
+  const raw = dataLines.join('\n')
+  try {
+    return { event, data: JSON.parse(raw) }
+  } catch {
+    return { event, data: raw }
+  }
+}
+
+// Read a Server-Sent Events body to the end, one event at a time. A handler
+// that throws stops the stream.
+async function readSseEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: { event: string; data: unknown }) => void,
+  onChunk?: () => void
+): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      onChunk?.()
+
+      // Normalized over the whole buffer: a CRLF can be split between chunks
+      buffer = (buffer + decoder.decode(value, { stream: true })).replace(/\r\n/g, '\n')
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1) {
+        const parsed = parseSseEvent(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary + 2)
+        if (parsed) onEvent(parsed)
+        boundary = buffer.indexOf('\n\n')
+      }
+    }
+
+    const trailing = parseSseEvent(buffer.trim())
+    if (trailing) onEvent(trailing)
+  } catch (error) {
+    reader.cancel().catch(() => {/* already closed */})
+    throw error
+  }
+}
+
+// Abort and error mapping for a streamed response, like send() does for
+// regular requests. The timeout counts from the last data received.
+function streamGuard(idleTimeoutMs: number, signal?: AbortSignal) {
+  const controller = new AbortController()
+  let timedOut = false
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const touch = () => {
+    clearTimeout(timer)
+    timer = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, idleTimeoutMs)
+  }
+  const onAbort = () => controller.abort(signal?.reason)
+
+  if (signal?.aborted) onAbort()
+  else signal?.addEventListener('abort', onAbort, { once: true })
+  touch()
+
+  return {
+    signal: controller.signal,
+    touch,
+    toError: (error: unknown) => {
+      if (signal?.aborted || error instanceof ApiError) return error
+      if (timedOut) {
+        return new ApiError(0, 'Timeout', `Request timed out after ${Math.round(idleTimeoutMs / 1000)}s`)
+      }
+      return new ApiError(0, 'NetworkError', error instanceof Error ? error.message : 'Network request failed')
+    },
+    close: () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+    },
+  }
+}
+
 export const chatApi = {
   // Ask a question (optionally in a conversation)
-  ask: (token: string, question: string, conversationId?: string) =>
-    request<ChatResponse>('/query/ask', {
-      method: 'POST',
-      body: JSON.stringify({ question, conversationId }),
-      token,
-    }),
+  ask: (token: string, question: string, conversationId?: string, options?: CallOptions) =>
+    request<ChatResponse>(
+      '/query/ask',
+      {
+        method: 'POST',
+        body: JSON.stringify({ question, conversationId }),
+        token,
+        timeoutMs: CHAT_TIMEOUT_MS,
+        ...options,
+      },
+      chatResponseSchema
+    ),
+
+  // Ask a question and receive the answer as Server-Sent Events.
+  // Falls back to a regular JSON response when the server doesn't stream.
+  askStream: async (
+    token: string,
+    question: string,
+    conversationId: string | undefined,
+    handlers: ChatStreamHandlers = {},
+    signal?: AbortSignal
+  ): Promise<ChatResponse> => {
+    const guard = streamGuard(CHAT_TIMEOUT_MS, signal)
+    const post = (accessToken: string) =>
+      fetch(`${API_BASE}/query/ask`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream, application/json',
+          Authorization: `Bearer ${accessToken}`,
+          ...(activeOrganizationId ? { [ORGANIZATION_HEADER]: activeOrganizationId } : {}),
+        },
+        body: JSON.stringify({ question, conversationId, stream: true }),
+        signal: guard.signal,
+      })
+
+    try {
+      let response = await post(token)
+
+      if (response.status === 401 && unauthorizedHandler) {
+        const freshToken = await unauthorizedHandler()
+        if (!freshToken) throw new ApiError(401, 'SessionExpired', 'Session expired')
+        response = await post(freshToken)
+      }
+
+      const contentType = response.headers.get('content-type') || ''
+
+      if (!response.ok || !contentType.includes('text/event-stream') || !response.body) {
+        const data = await readBody(response)
+
+        if (!response.ok) {
+          throw toApiError(response, data)
+        }
+
+        const result = parseResponse('/query/ask', response.status, chatResponseSchema, data)
+        if (result.answer) handlers.onText?.(result.answer)
+        if (result.sql) handlers.onSql?.(result.sql)
+        if (result.data) handlers.onData?.(result.data)
+        return result
+      }
+
+      let result: ChatResponse = { success: true, answer: '', conversationId: conversationId || '' }
+
+      const handleEvent = ({ event, data }: { event: string; data: unknown }) => {
+        const payload = (typeof data === 'object' && data !== null ? data : {}) as ChatStreamPayload
+
+        if (typeof payload.conversationId === 'string' && payload.conversationId !== result.conversationId) {
+          result.conversationId = payload.conversationId
+          handlers.onConversation?.(payload.conversationId)
+        }
+
+        switch (event) {
+          case 'token': {
+            const delta = typeof data === 'string' ? data : payload.text || ''
+            result.answer += delta
+            handlers.onText?.(delta)
+            break
+          }
+          case 'sql':
+            result.sql = typeof data === 'string' ? data : payload.sql
+            if (result.sql) handlers.onSql?.(result.sql)
+            break
+          case 'data': {
+            const rows = Array.isArray(data) ? data : payload.rows
+            result.data = parseResponse('/query/ask', response.status, chatRowsSchema, rows)
+            handlers.onData?.(result.data)
+            break
+          }
+          case 'done':
+            result = parseResponse('/query/ask', response.status, chatResponseSchema, {
+              ...result,
+              ...payload,
+              answer: payload.answer ?? result.answer,
+            })
+            break
+          case 'error':
+            throw new ApiError(
+              response.status,
+              payload.error || 'StreamError',
+              payload.message || 'An error occurred'
+            )
+        }
+      }
+
+      await readSseEvents(response.body, handleEvent, guard.touch)
+      return result
+    } catch (error) {
+      throw guard.toError(error)
+    } finally {
+      guard.close()
+    }
+  },
 }
 
 // ============================================
@@ -438,7 +1028,7 @@ export const chatApi = {
 
 export interface Conversation {
   id: string
-  title: string
+  title: string | null
   messageCount: number
   totalTokens: number
   totalCostUsd: number
@@ -448,7 +1038,7 @@ export interface Conversation {
 
 export interface ConversationDetail {
   id: string
-  title: string
+  title: string | null
   dataSourceId?: string
   totalTokensInput: number
   totalTokensOutput: number
@@ -462,7 +1052,7 @@ export interface ConversationMessage {
   role: 'user' | 'assistant'
   content: string
   sql?: string
-  data?: any[]
+  data?: Record<string, unknown>[]
   source?: string
   tokens: { input: number; output: number }
   costUsd: number
@@ -479,82 +1069,409 @@ export interface ConversationStats {
   averageTokensPerConversation: number
 }
 
+// Server-side usage totals per model and per day, across every conversation
+export interface UsageBreakdown {
+  byModel: { model: string; provider: string; messages: number; tokens: number; costUsd: number }[]
+  byDay: { date: string; costUsd: number; tokens: number; messages: number }[]
+}
+
 export const conversationsApi = {
-  // List all conversations
-  list: (token: string, limit = 50, offset = 0) =>
+  // List conversations, optionally filtered by title (and message content where the backend supports it)
+  list: (token: string, limit = 50, offset = 0, search?: string, options?: CallOptions) =>
     request<{
       conversations: Conversation[]
       pagination: { limit: number; offset: number; hasMore: boolean }
-    }>(`/conversations?limit=${limit}&offset=${offset}`, { token }),
+    }>(
+      `/conversations?limit=${limit}&offset=${offset}${search ? `&search=${encodeURIComponent(search)}` : ''}`,
+      { token, ...options },
+      conversationListResponseSchema
+    ),
 
   // Get single conversation with messages
-  get: (token: string, id: string) =>
+  get: (token: string, id: string, options?: CallOptions) =>
     request<{
       conversation: ConversationDetail
       messages: ConversationMessage[]
-    }>(`/conversations/${id}`, { token }),
+    }>(`/conversations/${id}`, { token, ...options }, conversationResponseSchema),
 
   // Create new conversation
-  create: (token: string, title?: string, dataSourceId?: string) =>
+  create: (token: string, title?: string, dataSourceId?: string, options?: CallOptions) =>
     request<{
       success: boolean
       conversation: { id: string; title: string | null; createdAt: string }
-    }>('/conversations', {
-      method: 'POST',
-      body: JSON.stringify({ title, dataSourceId }),
-      token,
-    }),
+    }>(
+      '/conversations',
+      {
+        method: 'POST',
+        body: JSON.stringify({ title, dataSourceId }),
+        token,
+        ...options,
+      },
+      createConversationResponseSchema
+    ),
 
   // Delete conversation
-  delete: (token: string, id: string) =>
-    request<{ success: boolean; message: string }>(`/conversations/${id}`, {
-      method: 'DELETE',
-      token,
-    }),
+  delete: (token: string, id: string, options?: CallOptions) =>
+    request<{ success: boolean; message: string }>(
+      `/conversations/${id}`,
+      { method: 'DELETE', token, ...options },
+      successResponseSchema
+    ),
 
   // Update conversation title
-  updateTitle: (token: string, id: string, title: string) =>
-    request<{ success: boolean; title: string }>(`/conversations/${id}`, {
-      method: 'PATCH',
-      body: JSON.stringify({ title }),
-      token,
-    }),
+  updateTitle: (token: string, id: string, title: string, options?: CallOptions) =>
+    request<{ success: boolean; title: string }>(
+      `/conversations/${id}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify({ title }),
+        token,
+        ...options,
+      },
+      updateTitleResponseSchema
+    ),
 
   // Get stats summary
-  stats: (token: string) =>
-    request<{ stats: ConversationStats }>('/conversations/stats/summary', { token }),
+  stats: (token: string, options?: CallOptions) =>
+    request<{ stats: ConversationStats }>('/conversations/stats/summary', { token, ...options }, conversationStatsResponseSchema),
+
+  // Get usage per model and per day
+  usage: (token: string, options?: CallOptions) =>
+    request<{ usage: UsageBreakdown }>('/conversations/stats/usage', { token, ...options }, usageBreakdownResponseSchema),
 }
 
 // ============================================
 // Auth API
 // ============================================
 
+export interface User {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+}
+
+export interface Organization {
+  id: string
+  name: string
+  onboardingStatus?: string
+  // The signed-in user's role in this organization
+  role?: OrgRole
+}
+
+// OIDC identity provider the backend accepts codes from
+export interface SsoProvider {
+  id: string
+  name: string
+  kind: 'google' | 'microsoft' | 'oidc'
+  authorizationEndpoint: string
+  clientId: string
+  scopes: string[]
+}
+
+// Whether an email's organization enforces SSO, and through which provider
+export interface SsoDiscovery {
+  ssoRequired: boolean
+  provider?: SsoProvider
+}
+
 export const authApi = {
   // Login
-  login: (email: string, password: string) =>
-    request<{ token: string; user: { id: string; email: string; name: string } }>(
+  login: (email: string, password: string, options?: CallOptions) =>
+    request<{ token: string; refreshToken?: string; user: User }>(
       '/auth/login',
       {
         method: 'POST',
         body: JSON.stringify({ email, password }),
-      }
+        ...options,
+      },
+      authResponseSchema
     ),
 
   // Register
-  register: (data: { email: string; password: string; name: string; organizationName: string }) =>
-    request<{ token: string; user: { id: string; email: string; name: string } }>(
+  register: (data: { email: string; password: string; name: string; organizationName: string }, options?: CallOptions) =>
+    request<{ token: string; refreshToken?: string; user: User }>(
       '/auth/register',
       {
         method: 'POST',
         body: JSON.stringify(data),
-      }
+        ...options,
+      },
+      authResponseSchema
+    ),
+
+  // Exchange a refresh token for a new access token (the refresh token rotates)
+  refresh: (refreshToken: string, options?: CallOptions) =>
+    request<{ token: string; refreshToken?: string }>(
+      '/auth/refresh',
+      {
+        method: 'POST',
+        body: JSON.stringify({ refreshToken }),
+        ...options,
+      },
+      refreshResponseSchema
+    ),
+
+  // Email a password reset link; succeeds whether or not the account exists
+  forgotPassword: (email: string, options?: CallOptions) =>
+    request<{ success: boolean; message: string }>(
+      '/auth/forgot-password',
+      {
+        method: 'POST',
+        body: JSON.stringify({ email }),
+        ...options,
+      },
+      successResponseSchema
+    ),
+
+  // Set a new password with the token from the reset email
+  resetPassword: (resetToken: string, password: string, options?: CallOptions) =>
+    request<{ success: boolean; message: string }>(
+      '/auth/reset-password',
+      {
+        method: 'POST',
+        body: JSON.stringify({ token: resetToken, password }),
+        ...options,
+      },
+      successResponseSchema
+    ),
+
+  // Confirm an email address with the token from the verification email
+  verifyEmail: (verificationToken: string, options?: CallOptions) =>
+    request<{ success: boolean; message: string }>(
+      '/auth/verify-email',
+      {
+        method: 'POST',
+        body: JSON.stringify({ token: verificationToken }),
+        ...options,
+      },
+      successResponseSchema
+    ),
+
+  // Send the verification email again to the signed-in user
+  resendVerification: (token: string, options?: CallOptions) =>
+    request<{ success: boolean; message: string }>(
+      '/auth/verify-email/resend',
+      { method: 'POST', token, ...options },
+      successResponseSchema
+    ),
+
+  // Change the signed-in user's password
+  changePassword: (token: string, currentPassword: string, newPassword: string, options?: CallOptions) =>
+    request<{ success: boolean; message: string }>(
+      '/auth/change-password',
+      {
+        method: 'POST',
+        body: JSON.stringify({ currentPassword, newPassword }),
+        token,
+        ...options,
+      },
+      successResponseSchema
     ),
 
-  // Get current user
-  me: (token: string) =>
-    request<{ user: { id: string; email: string; name: string }; organization: any }>(
+  // Sign up through an invitation, joining the inviting organization
+  acceptInvite: (data: { inviteToken: string; name: string; password: string }, options?: CallOptions) =>
+    request<{ token: string; refreshToken?: string; user: User }>(
+      '/auth/accept-invite',
+      {
+        method: 'POST',
+        body: JSON.stringify(data),
+        ...options,
+      },
+      authResponseSchema
+    ),
+
+  // Identity providers offered on the login page
+  ssoProviders: (options?: CallOptions) =>
+    request<{ providers: SsoProvider[] }>('/auth/sso/providers', { ...options }, ssoProvidersResponseSchema),
+
+  // Look up the SSO policy of the organization that owns an email domain
+  ssoDiscover: (email: string, options?: CallOptions) =>
+    request<SsoDiscovery>(
+      '/auth/sso/discover',
+      {
+        method: 'POST',
+        body: JSON.stringify({ email }),
+        ...options,
+      },
+      ssoDiscoverySchema
+    ),
+
+  // Exchange an authorization code (plus its PKCE verifier) for a session
+  ssoCallback: (
+    data: { providerId: string; code: string; codeVerifier: string; redirectUri: string },
+    options?: CallOptions
+  ) =>
+    request<{ token: string; refreshToken?: string; user: User }>(
+      '/auth/sso/callback',
+      {
+        method: 'POST',
+        body: JSON.stringify(data),
+        ...options,
+      },
+      authResponseSchema
+    ),
+
+  // Get current user, their default organization and every membership
+  me: (token: string, options?: CallOptions) =>
+    request<{ user: User; organization: Organization | null; organizations?: Organization[] }>(
       '/auth/me',
-      { token }
+      { token, ...options },
+      meResponseSchema
+    ),
+}
+
+// ============================================
+// Organization API
+// ============================================
+
+export type OrgRole = 'owner' | 'admin' | 'analyst' | 'viewer'
+
+export interface OrgMember {
+  id: string
+  userId: string
+  email: string
+  name: string
+  role: OrgRole
+  joinedAt: string
+}
+
+export interface OrgInvitation {
+  id: string
+  email: string
+  role: OrgRole
+  invitedBy?: string
+  createdAt: string
+  expiresAt: string
+}
+
+// What an invitee sees before signing up
+export interface InvitationDetails {
+  organizationName: string
+  email: string
+  role: OrgRole
+  invitedByName?: string
+  expiresAt: string
+}
+
+export const orgApi = {
+  // List members of the current organization
+  listMembers: (token: string, options?: CallOptions) =>
+    request<{ members: OrgMember[] }>('/org/members', { token, ...options }, membersResponseSchema),
+
+  // Change a member's role
+  updateMemberRole: (token: string, memberId: string, role: OrgRole, options?: CallOptions) =>
+    request<{ member: OrgMember }>(
+      `/org/members/${memberId}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify({ role }),
+        token,
+        ...options,
+      },
+      memberResponseSchema
+    ),
+
+  // Remove a member from the organization
+  removeMember: (token: string, memberId: string, options?: CallOptions) =>
+    request<{ success: boolean; message: string }>(
+      `/org/members/${memberId}`,
+      { method: 'DELETE', token, ...options },
+      successResponseSchema
+    ),
+
+  // List pending invitations
+  listInvitations: (token: string, options?: CallOptions) =>
+    request<{ invitations: OrgInvitation[] }>('/org/invitations', { token, ...options }, invitationsResponseSchema),
+
+  // Invite someone by email
+  invite: (token: string, email: string, role: OrgRole, options?: CallOptions) =>
+    request<{ invitation: OrgInvitation }>(
+      '/org/invitations',
+      {
+        method: 'POST',
+        body: JSON.stringify({ email, role }),
+        token,
+        ...options,
+      },
+      invitationResponseSchema
+    ),
+
+  // Cancel a pending invitation
+  revokeInvitation: (token: string, invitationId: string, options?: CallOptions) =>
+    request<{ success: boolean; message: string }>(
+      `/org/invitations/${invitationId}`,
+      { method: 'DELETE', token, ...options },
+      successResponseSchema
+    ),
+
+  // Look up an invitation by the token in the invite link (no session needed)
+  getInvitation: (inviteToken: string, options?: CallOptions) =>
+    request<InvitationDetails>(
+      `/org/invitations/lookup/${encodeURIComponent(inviteToken)}`,
+      { ...options },
+      invitationDetailsSchema
+    ),
+}
+
+// ============================================
+// Uploads API
+// ============================================
+
+// Resumable upload (tus-style): the server tracks how many bytes it has, and
+// chunks are sent at that offset
+export interface UploadSession {
+  id: string
+  fileName: string
+  size: number
+  offset: number
+  // Preferred chunk size in bytes
+  chunkSize?: number
+  expiresAt?: string
+}
+
+export const uploadsApi = {
+  // Open an upload session for a file
+  create: (token: string, file: { fileName: string; size: number; mimeType: string }, options?: CallOptions) =>
+    request<{ upload: UploadSession }>(
+      '/uploads',
+      {
+        method: 'POST',
+        body: JSON.stringify(file),
+        token,
+        ...options,
+      },
+      uploadSessionResponseSchema
+    ),
+
+  // Current state of a session, including the offset to resume from
+  get: (token: string, uploadId: string, options?: CallOptions) =>
+    request<{ upload: UploadSession }>(`/uploads/${uploadId}`, { token, ...options }, uploadSessionResponseSchema),
+
+  // Append a chunk; rejected with 409 when offset isn't where the server is
+  uploadChunk: (token: string, uploadId: string, offset: number, chunk: Blob, options?: CallOptions) =>
+    request<{ upload: UploadSession }>(
+      `/uploads/${uploadId}`,
+      {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/offset+octet-stream',
+          'Upload-Offset': String(offset),
+        },
+        body: chunk,
+        token,
+        timeoutMs: CHUNK_TIMEOUT_MS,
+        ...options,
+      },
+      uploadSessionResponseSchema
+    ),
+
+  // Abort a session and discard what was uploaded
+  cancel: (token: string, uploadId: string, options?: CallOptions) =>
+    request<{ success: boolean; message: string }>(
+      `/uploads/${uploadId}`,
+      { method: 'DELETE', token, ...options },
+      successResponseSchema
     ),
 }
 
@@ -579,7 +1496,7 @@ export interface DataSourcePreview {
   dataSourceId: string
   tableName: string
   columns: { name: string; type: string; semanticType?: string }[]
-  rows: Record<string, any>[]
+  rows: Record<string, string | number | boolean | null>[]
   totalRows: number
   previewRows: number
 }
@@ -594,46 +1511,73 @@ export interface DocumentContent {
   content: {
     rawText?: string
     summary?: string
-    structuredData?: Record<string, any>
-    extractedEntities?: any[]
-    extractedTables?: any[]
+    structuredData?: Record<string, unknown>
+    extractedEntities?: (string | { name?: string; value?: string })[]
+    extractedTables?: unknown[]
   }
   wordCount: number
   createdAt: string
 }
 
+export interface SchemaColumn {
+  name: string
+  type: string
+  semanticType?: string
+  nullable?: boolean
+  isPrimaryKey?: boolean
+  isForeignKey?: boolean
+}
+
+export interface SchemaRelationship {
+  fromTable: string
+  fromColumn: string
+  toTable: string
+  toColumn: string
+  type?: string
+  confidence?: number
+}
+
+export interface PiiColumn {
+  table: string
+  column: string
+  piiType?: string
+}
+
+export interface DataSourceSchema {
+  schema: Record<string, SchemaColumn[]>
+  relationships: SchemaRelationship[]
+  piiColumns: PiiColumn[]
+  rowCount: number
+}
+
 export const dataSourcesApi = {
   // List all data sources
-  list: (token: string) =>
-    request<{ dataSources: DataSource[] }>('/data-sources', { token }),
+  list: (token: string, options?: CallOptions) =>
+    request<{ dataSources: DataSource[] }>('/data-sources', { token, ...options }, dataSourceListResponseSchema),
 
   // Get single data source
-  get: (token: string, id: string) =>
-    request<{ dataSource: DataSource }>(`/data-sources/${id}`, { token }),
+  get: (token: string, id: string, options?: CallOptions) =>
+    request<{ dataSource: DataSource }>(`/data-sources/${id}`, { token, ...options }, dataSourceResponseSchema),
 
   // Get preview (first N rows) - for Excel/CSV
-  preview: (token: string, id: string, limit = 10) =>
-    request<DataSourcePreview>(`/data-sources/${id}/preview?limit=${limit}`, { token }),
+  preview: (token: string, id: string, limit = 10, options?: CallOptions) =>
+    request<DataSourcePreview>(`/data-sources/${id}/preview?limit=${limit}`, { token, ...options }, dataSourcePreviewSchema),
 
   // Get document content - for PDF/Word
-  document: (token: string, id: string) =>
-    request<DocumentContent>(`/data-sources/${id}/document`, { token }),
+  document: (token: string, id: string, options?: CallOptions) =>
+    request<DocumentContent>(`/data-sources/${id}/document`, { token, ...options }, documentContentSchema),
 
   // Get schema
-  schema: (token: string, id: string) =>
-    request<{
-      schema: Record<string, any[]>
-      relationships: any[]
-      piiColumns: any[]
-      rowCount: number
-    }>(`/data-sources/${id}/schema`, { token }),
+  schema: (token: string, id: string, options?: CallOptions) =>
+    request<DataSourceSchema>(`/data-sources/${id}/schema`, { token, ...options }, dataSourceSchemaSchema),
 
   // Delete data source
-  delete: (token: string, id: string) =>
-    request<{ success: boolean; message: string }>(`/data-sources/${id}`, {
-      method: 'DELETE',
-      token,
-    }),
+  delete: (token: string, id: string, options?: CallOptions) =>
+    request<{ success: boolean; message: string }>(
+      `/data-sources/${id}`,
+      { method: 'DELETE', token, ...options },
+      successResponseSchema
+    ),
 }
 
 export { ApiError }
@@ -1,92 +1,349 @@
 'use client'
 
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react'
-import { authApi } from './api'
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import {
+  authApi,
+  onboardingApi,
+  setUnauthorizedHandler,
+  setActiveOrganizationId,
+  getActiveOrganizationId,
+  type User,
+  type Organization,
+} from './api'
+import { hasPermission, type Permission } from './permissions'
 
-interface User {
-  id: string
-  email: string
-  name: string
-}
-
-interface Organization {
-  id: string
-  name: string
-  onboardingStatus?: string
-}
+const TOKEN_KEY = 'iavoqado_token'
+const REFRESH_TOKEN_KEY = 'iavoqado_refresh_token'
+const ACTIVE_ORG_KEY = 'iavoqado_active_org'
+const REFRESH_LOCK = 'iavoqado_refresh'
+// Renew the access token this long before it expires
+const REFRESH_MARGIN_MS = 60_000
+// setTimeout overflows past ~24.8 days
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1
 
 interface AuthContextType {
   user: User | null
   organization: Organization | null
+  // Every organization the user belongs to
+  organizations: Organization[]
   token: string | null
   isLoading: boolean
   login: (email: string, password: string) => Promise<void>
   register: (data: { email: string; password: string; name: string; organizationName: string }) => Promise<void>
+  acceptInvite: (data: { inviteToken: string; name: string; password: string }) => Promise<void>
+  loginWithSso: (data: { providerId: string; code: string; codeVerifier: string; redirectUri: string }) => Promise<void>
   logout: () => void
+  switchOrganization: (organizationId: string) => void
+  can: (permission: Permission) => boolean
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
+// Expiry (ms) from the JWT payload; the signature is the server's concern
+function tokenExpiry(token: string): number | null {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')
+    const { exp } = JSON.parse(atob(payload))
+    return typeof exp === 'number' ? exp * 1000 : null
+  } catch {
+    return null
+  }
+}
+
+// Same-origin path for a redirect target, or null. Resolved the way the
+// browser would, so tricks like "/\evil.com" can't leave the site.
+export function toInAppPath(next: string | null | undefined): string | null {
+  if (!next || typeof window === 'undefined') return null
+  try {
+    const url = new URL(next, window.location.origin)
+    return url.origin === window.location.origin ? url.pathname + url.search + url.hash : null
+  } catch {
+    return null
+  }
+}
+
+// In-app path from the ?next= param; anything pointing off-site is ignored
+export function getNextPath(): string | null {
+  if (typeof window === 'undefined') return null
+  return toInAppPath(new URLSearchParams(window.location.search).get('next'))
+}
+
+// Where a signed-in user lands: the chat once it's ready, otherwise back into
+// an unfinished analysis, or the start of onboarding
+export async function resolveHomeRoute(token: string): Promise<string> {
+  try {
+    const status = await onboardingApi.checkReady(token)
+    if (status.ready && status.chatbot.available) return '/chat'
+
+    const processing = await onboardingApi.getProcessingStatus(token)
+    if (processing.stage === 'awaiting_confirmation') return '/onboarding/review'
+    if (processing.hasProcessing && processing.stage !== 'ready' && !processing.error) return '/onboarding/processing'
+    return '/onboarding/upload'
+  } catch {
+    return '/onboarding/upload'
+  }
+}
+
+// Browser storage key for state that belongs to the active organization, so
+// switching organizations never mixes their cached data
+export function orgStorageKey(key: string): string {
+  const organizationId = getActiveOrganizationId()
+  return organizationId ? `${key}:${organizationId}` : key
+}
+
+// Run token renewal in one tab at a time where the browser supports Web Locks
+function withRefreshLock<T>(task: () => Promise<T>): Promise<T> {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request(REFRESH_LOCK, task) as Promise<T>
+  }
+  return task()
+}
+
+function storeTokens(token: string, refreshToken?: string) {
+  localStorage.setItem(TOKEN_KEY, token)
+  if (refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken)
+  } else {
+    localStorage.removeItem(REFRESH_TOKEN_KEY)
+  }
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
+  const router = useRouter()
   const [user, setUser] = useState<User | null>(null)
   const [organization, setOrganization] = useState<Organization | null>(null)
+  const [organizations, setOrganizations] = useState<Organization[]>([])
   const [token, setToken] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  const refreshRef = useRef<Promise<string | null> | null>(null)
+
+  const clearSession = useCallback(() => {
+    localStorage.removeItem(TOKEN_KEY)
+    localStorage.removeItem(REFRESH_TOKEN_KEY)
+    localStorage.removeItem(ACTIVE_ORG_KEY)
+    setActiveOrganizationId(null)
+    setToken(null)
+    setUser(null)
+    setOrganization(null)
+    setOrganizations([])
+  }, [])
+
+  // Take the memberships from /auth/me and resume the last organization used,
+  // falling back to the user's default one
+  const applyMemberships = useCallback((data: { organization: Organization | null; organizations?: Organization[] }) => {
+    const memberships = data.organizations?.length
+      ? data.organizations
+      : data.organization ? [data.organization] : []
+    const storedId = localStorage.getItem(ACTIVE_ORG_KEY)
+    const active = memberships.find((org) => org.id === storedId) ?? data.organization
+
+    setActiveOrganizationId(active?.id ?? null)
+    setOrganizations(memberships)
+    setOrganization(active)
+  }, [])
+
+  // The session can't be renewed: sign out and come back here after logging in
+  const expireSession = useCallback(() => {
+    clearSession()
+    toast.warning('Tu sesion expiro. Inicia sesion de nuevo.')
+    const returnTo = window.location.pathname + window.location.search
+    router.push(returnTo === '/' ? '/' : `/?next=${encodeURIComponent(returnTo)}`)
+  }, [clearSession, router])
+
+  // Rotate tokens once, however many requests hit 401 at the same time. Other
+  // tabs renew on the same schedule, so only one refreshes and the rest pick up
+  // its tokens instead of spending a rotated refresh token.
+  const refreshSession = useCallback((): Promise<string | null> => {
+    if (!refreshRef.current) {
+      const staleToken = localStorage.getItem(TOKEN_KEY)
+
+      refreshRef.current = withRefreshLock(async () => {
+        // Another tab renewed while we waited
+        const storedToken = localStorage.getItem(TOKEN_KEY)
+        if (storedToken && storedToken !== staleToken) return storedToken
+
+        const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY)
+        if (!refreshToken) throw new Error('No refresh token')
+
+        try {
+          const result = await authApi.refresh(refreshToken)
+          // Keep the current refresh token if the server didn't rotate it
+          storeTokens(result.token, result.refreshToken ?? refreshToken)
+          return result.token
+        } catch (error) {
+          // Lost a race with a tab that rotated first: its session is still good
+          const rotatedToken = localStorage.getItem(TOKEN_KEY)
+          if (rotatedToken && localStorage.getItem(REFRESH_TOKEN_KEY) !== refreshToken) return rotatedToken
+          throw error
+        }
+      })
+        .then((freshToken) => {
+          setToken(freshToken)
+          return freshToken
+        })
+        .catch(() => {
+          expireSession()
+          return null
+        })
+        .finally(() => {
+          refreshRef.current = null
+        })
+    }
+    return refreshRef.current
+  }, [expireSession])
+
+  // Central 401 handling for every API call
+  useEffect(() => {
+    setUnauthorizedHandler(refreshSession)
+    return () => setUnauthorizedHandler(null)
+  }, [refreshSession])
 
   useEffect(() => {
     // Check for existing token
-    const storedToken = localStorage.getItem('iavoqado_token')
-    if (storedToken) {
-      // Validate token BEFORE setting it
-      authApi.me(storedToken)
+    const storedToken = localStorage.getItem(TOKEN_KEY)
+    // Validate token BEFORE setting it (an expired one is refreshed on the way)
+    const restore = storedToken
+      ? authApi.me(storedToken)
         .then((data) => {
           // Token is valid, set everything
-          setToken(storedToken)
+          setToken(localStorage.getItem(TOKEN_KEY))
           setUser(data.user)
-          setOrganization(data.organization)
+          applyMemberships(data)
         })
         .catch(() => {
           // Token invalid, clear it
-          localStorage.removeItem('iavoqado_token')
-          setToken(null)
-          setUser(null)
-          setOrganization(null)
+          clearSession()
         })
-        .finally(() => setIsLoading(false))
-    } else {
-      setIsLoading(false)
+      : Promise.resolve()
+
+    // Loading ends on the same render path whether or not there was a session
+    restore.finally(() => setIsLoading(false))
+  }, [clearSession, applyMemberships])
+
+  // Keep tabs in sync: logout or token rotation in one tab applies to all
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== TOKEN_KEY && event.key !== null) return
+
+      const newToken = localStorage.getItem(TOKEN_KEY)
+      if (!newToken) {
+        setActiveOrganizationId(null)
+        setToken(null)
+        setUser(null)
+        setOrganization(null)
+        setOrganizations([])
+        return
+      }
+
+      setToken(newToken)
+      authApi.me(newToken)
+        .then((data) => {
+          setUser(data.user)
+          applyMemberships(data)
+        })
+        .catch((error) => console.error('Failed to sync session:', error))
     }
-  }, [])
+
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [applyMemberships])
+
+  // Renew shortly before the access token expires, or end the session at expiry
+  // when there is nothing to renew it with
+  useEffect(() => {
+    if (!token) return
+
+    const expiresAt = tokenExpiry(token)
+    if (!expiresAt) return
+
+    const canRefresh = Boolean(localStorage.getItem(REFRESH_TOKEN_KEY))
+    const delay = expiresAt - Date.now() - (canRefresh ? REFRESH_MARGIN_MS : 0)
+    const timer = setTimeout(
+      () => (canRefresh ? refreshSession() : expireSession()),
+      Math.min(Math.max(delay, 0), MAX_TIMER_DELAY_MS)
+    )
+    return () => clearTimeout(timer)
+  }, [token, refreshSession, expireSession])
 
   const login = async (email: string, password: string) => {
     const data = await authApi.login(email, password)
-    localStorage.setItem('iavoqado_token', data.token)
+    storeTokens(data.token, data.refreshToken)
     setToken(data.token)
     setUser(data.user)
     // Fetch organization
     const meData = await authApi.me(data.token)
-    setOrganization(meData.organization)
+    applyMemberships(meData)
   }
 
   const register = async (data: { email: string; password: string; name: string; organizationName: string }) => {
     const response = await authApi.register(data)
-    localStorage.setItem('iavoqado_token', response.token)
+    storeTokens(response.token, response.refreshToken)
     setToken(response.token)
     setUser(response.user)
     // Fetch organization
     const meData = await authApi.me(response.token)
-    setOrganization(meData.organization)
+    applyMemberships(meData)
+  }
+
+  // Like register, but joins the inviting organization instead of creating one
+  const acceptInvite = async (data: { inviteToken: string; name: string; password: string }) => {
+    const response = await authApi.acceptInvite(data)
+    storeTokens(response.token, response.refreshToken)
+    setToken(response.token)
+    setUser(response.user)
+    // Fetch organization
+    const meData = await authApi.me(response.token)
+    applyMemberships(meData)
+  }
+
+  // Finish an OIDC login: the backend redeems the code for our own tokens
+  const loginWithSso = async (data: { providerId: string; code: string; codeVerifier: string; redirectUri: string }) => {
+    const response = await authApi.ssoCallback(data)
+    storeTokens(response.token, response.refreshToken)
+    setToken(response.token)
+    setUser(response.user)
+    // Fetch organization
+    const meData = await authApi.me(response.token)
+    applyMemberships(meData)
   }
 
   const logout = () => {
-    localStorage.removeItem('iavoqado_token')
-    setToken(null)
-    setUser(null)
-    setOrganization(null)
+    clearSession()
   }
 
+  // Later requests and org-scoped storage follow the new organization; AuthGuard
+  // remounts the page so nothing loaded for the previous one lingers
+  const switchOrganization = (organizationId: string) => {
+    const next = organizations.find((org) => org.id === organizationId)
+    if (!next || next.id === organization?.id) return
+
+    localStorage.setItem(ACTIVE_ORG_KEY, next.id)
+    setActiveOrganizationId(next.id)
+    setOrganization(next)
+    toast.success(`Ahora trabajas en ${next.name}`)
+  }
+
+  const can = (permission: Permission) => hasPermission(organization?.role, permission)
+
   return (
-    <AuthContext.Provider value={{ user, organization, token, isLoading, login, register, logout }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        organization,
+        organizations,
+        token,
+        isLoading,
+        login,
+        register,
+        acceptInvite,
+        loginWithSso,
+        logout,
+        switchOrganization,
+        can,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   )
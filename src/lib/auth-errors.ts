@@ -0,0 +1,40 @@
+/**
+ * User-facing messages for auth-related ApiError codes
+ */
+
+import { ApiError } from './api'
+
+const authErrorMessages: Record<string, string> = {
+  InvalidCredentials: 'Correo o contraseña incorrectos',
+  EmailAlreadyExists: 'Ya existe una cuenta con este correo',
+  EmailNotVerified: 'Debes verificar tu correo antes de continuar',
+  EmailAlreadyVerified: 'Tu correo ya estaba verificado',
+  InvalidToken: 'El enlace no es válido. Solicita uno nuevo.',
+  TokenExpired: 'El enlace ya expiró. Solicita uno nuevo.',
+  WeakPassword: 'La contraseña es demasiado débil',
+  InvalidPassword: 'La contraseña actual no es correcta',
+  SamePassword: 'La nueva contraseña debe ser distinta a la actual',
+  InvitationNotFound: 'La invitación no existe o ya fue cancelada',
+  InvitationExpired: 'La invitación ya expiró. Pide que te inviten de nuevo.',
+  AlreadyMember: 'Esta persona ya es miembro de tu organización',
+  InvitationAlreadySent: 'Ya hay una invitación pendiente para este correo',
+  LastOwner: 'La organización debe tener al menos un propietario',
+  SSORequired: 'Tu organización requiere iniciar sesión con SSO',
+  SSOFailed: 'No se pudo completar el inicio de sesión con SSO',
+  SSODomainNotAllowed: 'Tu correo no pertenece a un dominio permitido por tu organización',
+  SSOProviderNotFound: 'El proveedor de inicio de sesión no está configurado',
+  Forbidden: 'No tienes permiso para realizar esta acción',
+  TooManyRequests: 'Demasiados intentos. Espera unos minutos e intenta de nuevo.',
+  SessionExpired: 'Tu sesión expiró. Inicia sesión de nuevo.',
+  NetworkError: 'No se pudo conectar con el servidor',
+  Timeout: 'El servidor tardó demasiado en responder',
+}
+
+export function authErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ApiError) {
+    if (authErrorMessages[error.code]) return authErrorMessages[error.code]
+    if (error.status === 429) return authErrorMessages.TooManyRequests
+    if (error.status === 403) return authErrorMessages.Forbidden
+  }
+  return fallback
+}
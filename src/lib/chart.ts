@@ -0,0 +1,141 @@
+/**
+ * Chart inference for query results
+ */
+
+export type ChartType = 'line' | 'bar' | 'pie' | 'kpi'
+
+export interface ChartSpec {
+  type: ChartType
+  categoryKey?: string
+  valueKeys: string[]
+}
+
+export type ResultRow = Record<string, unknown>
+
+type ColumnKind = 'number' | 'date' | 'category' | 'empty'
+
+// Name words that describe a time axis. Matched as whole words, so "mesero"
+// or "venta_media" don't count.
+const DATE_WORDS = new Set([
+  'fecha', 'date', 'dia', 'día', 'day', 'mes', 'month', 'semana', 'week',
+  'año', 'ano', 'anio', 'year', 'periodo', 'period',
+])
+// Numeric periods are only a time axis within their calendar range ("mes": 1..12)
+const PERIOD_RANGES: Record<string, [number, number]> = {
+  dia: [1, 31], día: [1, 31], day: [1, 31],
+  mes: [1, 12], month: [1, 12],
+  semana: [1, 53], week: [1, 53],
+  año: [1900, 2100], ano: [1900, 2100], anio: [1900, 2100], year: [1900, 2100],
+}
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}(-\d{2})?([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/
+
+const MAX_PIE_SLICES = 6
+const MAX_SERIES = 3
+export const MAX_CHART_POINTS = 50
+
+export function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value)
+  }
+  return null
+}
+
+function isDateValue(value: unknown): boolean {
+  if (value instanceof Date) return true
+  return typeof value === 'string' && ISO_DATE_PATTERN.test(value) && !isNaN(Date.parse(value))
+}
+
+// "fechaVenta", "num_mesas", "Año fiscal" -> lowercase words
+function nameWords(key: string): string[] {
+  return key
+    .replace(/([a-zà-ÿ])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[\s_\-.]+/)
+    .filter(Boolean)
+}
+
+function isPeriodColumn(key: string, values: unknown[]): boolean {
+  const words = nameWords(key).filter((word) => DATE_WORDS.has(word))
+  if (words.length === 0) return false
+
+  const numbers = values.map(toNumber)
+  // Labels like "Enero" or "2024-T1" under a date-like name
+  if (numbers.some((n) => n === null)) return true
+
+  return words.some((word) => {
+    const range = PERIOD_RANGES[word]
+    return !!range && numbers.every((n) => n !== null && Number.isInteger(n) && n >= range[0] && n <= range[1])
+  })
+}
+
+function classifyColumn(key: string, rows: ResultRow[]): ColumnKind {
+  const values = rows.map((row) => row[key]).filter((v) => v !== null && v !== undefined)
+  if (values.length === 0) return 'empty'
+  if (values.every(isDateValue)) return 'date'
+  if (isPeriodColumn(key, values)) return 'date'
+  if (values.every((v) => toNumber(v) !== null)) return 'number'
+  return 'category'
+}
+
+export function inferChart(rows: ResultRow[]): ChartSpec | null {
+  if (rows.length === 0) return null
+
+  const keys = Object.keys(rows[0])
+  const kinds = Object.fromEntries(keys.map((key) => [key, classifyColumn(key, rows)]))
+  const numberKeys = keys.filter((key) => kinds[key] === 'number')
+  const dateKeys = keys.filter((key) => kinds[key] === 'date')
+  const categoryKeys = keys.filter((key) => kinds[key] === 'category')
+
+  if (numberKeys.length === 0) return null
+
+  // Single value: "total de ventas" -> KPI card
+  if (rows.length === 1 && keys.length <= 2) {
+    return { type: 'kpi', categoryKey: dateKeys[0] || categoryKeys[0], valueKeys: [numberKeys[0]] }
+  }
+
+  const valueKeys = numberKeys.slice(0, MAX_SERIES)
+
+  if (dateKeys.length > 0 && rows.length > 1) {
+    return { type: 'line', categoryKey: dateKeys[0], valueKeys }
+  }
+
+  if (categoryKeys.length > 0) {
+    const categoryKey = categoryKeys[0]
+    const distinct = new Set(rows.map((row) => String(row[categoryKey]))).size
+    const allPositive = rows.every((row) => (toNumber(row[numberKeys[0]]) ?? 0) >= 0)
+
+    if (numberKeys.length === 1 && distinct <= MAX_PIE_SLICES && distinct === rows.length && allPositive) {
+      return { type: 'pie', categoryKey, valueKeys }
+    }
+    return { type: 'bar', categoryKey, valueKeys }
+  }
+
+  return null
+}
+
+// Normalize rows into what recharts expects: string labels and numeric values
+export function toChartData(rows: ResultRow[], spec: ChartSpec): Record<string, string | number>[] {
+  const { categoryKey, valueKeys } = spec
+
+  let sorted = rows
+  if (spec.type === 'line' && categoryKey && rows.every((row) => isDateValue(row[categoryKey]))) {
+    sorted = [...rows].sort(
+      (a, b) => Date.parse(String(a[categoryKey])) - Date.parse(String(b[categoryKey]))
+    )
+  }
+
+  return sorted.slice(0, MAX_CHART_POINTS).map((row) => {
+    const point: Record<string, string | number> = {}
+    if (categoryKey) {
+      const label = row[categoryKey]
+      point[categoryKey] = typeof label === 'string' && ISO_DATE_PATTERN.test(label)
+        ? label.slice(0, 10)
+        : String(label ?? '-')
+    }
+    valueKeys.forEach((key) => {
+      point[key] = toNumber(row[key]) ?? 0
+    })
+    return point
+  })
+}
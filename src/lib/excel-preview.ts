@@ -0,0 +1,37 @@
+/**
+ * Workbook preview parsing
+ *
+ * Runs inside excel-preview.worker so large or hostile workbooks never block
+ * the page. Only headers, the first rows and each sheet's real extent are kept.
+ * xlsx stays on 0.18.5, the last release on npm; newer builds only ship from
+ * the SheetJS CDN, so untrusted workbooks are parsed here, off the main thread.
+ */
+
+import * as XLSX from 'xlsx'
+import type { PreviewCell } from './file-inspection'
+
+export interface WorkbookSheet {
+  name: string
+  headers: string[]
+  rows: PreviewCell[][]
+  rowCount: number
+}
+
+export function previewWorkbook(data: ArrayBuffer, previewRows: number): WorkbookSheet[] {
+  const workbook = XLSX.read(data, { type: 'array', sheetRows: previewRows + 1 })
+
+  return workbook.SheetNames.map((name) => {
+    const worksheet = workbook.Sheets[name]
+    const rows = XLSX.utils.sheet_to_json<PreviewCell[]>(worksheet, { header: 1, defval: null, blankrows: false })
+    // sheetRows trims !ref; !fullref keeps the real extent
+    const fullRef: string | undefined = worksheet['!fullref'] ?? worksheet['!ref']
+    const [headerRow = [], ...dataRows] = rows
+
+    return {
+      name,
+      headers: headerRow.map((cell) => (cell === null ? '' : String(cell).trim())),
+      rows: dataRows,
+      rowCount: fullRef ? XLSX.utils.decode_range(fullRef).e.r : 0,
+    }
+  })
+}
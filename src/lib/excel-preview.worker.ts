@@ -0,0 +1,20 @@
+import { previewWorkbook } from './excel-preview'
+
+export interface ExcelPreviewRequest {
+  data: ArrayBuffer
+  previewRows: number
+}
+
+export type ExcelPreviewResponse =
+  | { ok: true; sheets: ReturnType<typeof previewWorkbook> }
+  | { ok: false; message: string }
+
+self.onmessage = ({ data: request }: MessageEvent<ExcelPreviewRequest>) => {
+  let response: ExcelPreviewResponse
+  try {
+    response = { ok: true, sheets: previewWorkbook(request.data, request.previewRows) }
+  } catch (error) {
+    response = { ok: false, message: error instanceof Error ? error.message : 'Unreadable workbook' }
+  }
+  self.postMessage(response)
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest'
+import { toDelimited } from './export'
+
+describe('toDelimited', () => {
+  it('neutralizes text that Excel would run as a formula', () => {
+    expect(toDelimited([{ nota: '=HYPERLINK("http://x")' }, { nota: '@SUM(A1)' }, { nota: '-foo' }])).toBe(
+      'nota\r\n"\'=HYPERLINK(""http://x"")"\r\n\'@SUM(A1)\r\n\'-foo'
+    )
+  })
+
+  it('keeps numbers sent as strings unchanged', () => {
+    expect(toDelimited([{ total: '-1234.50' }, { total: '+42' }, { total: '1e-3' }])).toBe(
+      'total\r\n-1234.50\r\n+42\r\n1e-3'
+    )
+  })
+
+  it('keeps negative numbers unchanged', () => {
+    expect(toDelimited([{ total: -1234.5 }], '\t')).toBe('total\r\n-1234.5')
+  })
+})
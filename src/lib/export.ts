@@ -0,0 +1,110 @@
+/**
+ * Export helpers for query results (CSV, XLSX, clipboard)
+ */
+
+import { downloadBlob } from './utils'
+
+export type ExportRow = Record<string, unknown>
+
+// Union of keys in first-seen order so sparse rows don't drop columns
+export function getColumns(rows: ExportRow[]): string[] {
+  const columns: string[] = []
+  const seen = new Set<string>()
+  rows.forEach((row) => {
+    Object.keys(row).forEach((key) => {
+      if (!seen.has(key)) {
+        seen.add(key)
+        columns.push(key)
+      }
+    })
+  })
+  return columns
+}
+
+// Raw value as text: no locale formatting, so numbers round-trip exactly
+function toCellText(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+// Text Excel would run as a formula when opening the file
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+// Numbers sent as text, as Postgres does for numeric and bigint. Leading zeros
+// mark codes (e.g. "007"), which stay text.
+const NUMERIC_TEXT = /^[+-]?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/
+// Excel keeps 15 significant digits; longer values are written as text
+const MAX_SPREADSHEET_DIGITS = 15
+
+function isNumericText(text: string): boolean {
+  return NUMERIC_TEXT.test(text) && Number.isFinite(Number(text))
+}
+
+// The number a numeric string holds, when a spreadsheet can store it exactly
+function toSpreadsheetNumber(text: string): number | null {
+  if (!isNumericText(text)) return null
+  const digits = text.replace(/[eE].*$/, '').replace(/\D/g, '').replace(/^0+/, '').replace(/0+$/, '')
+  return digits.length <= MAX_SPREADSHEET_DIGITS ? Number(text) : null
+}
+
+// Cell text for delimited output. Strings that look like formulas get a
+// leading quote; numbers, including numeric strings, keep their sign.
+function toDelimitedCell(value: unknown): string {
+  const text = toCellText(value)
+  return typeof value === 'string' && FORMULA_PREFIX.test(text) && !isNumericText(text) ? `'${text}` : text
+}
+
+function escapeDelimited(text: string, delimiter: string): string {
+  if (text.includes(delimiter) || text.includes('"') || text.includes('\n') || text.includes('\r')) {
+    return `"${text.replace(/"/g, '""')}"`
+  }
+  return text
+}
+
+export function toDelimited(rows: ExportRow[], delimiter = ','): string {
+  const columns = getColumns(rows)
+  const lines = [
+    columns.map((col) => escapeDelimited(col, delimiter)).join(delimiter),
+    ...rows.map((row) =>
+      columns.map((col) => escapeDelimited(toDelimitedCell(row[col]), delimiter)).join(delimiter)
+    ),
+  ]
+  return lines.join('\r\n')
+}
+
+// UTF-8 with BOM so Excel (es-MX) opens accents correctly
+export function exportCsv(rows: ExportRow[], filename: string) {
+  const blob = new Blob(['\uFEFF' + toDelimited(rows, ',')], { type: 'text/csv;charset=utf-8' })
+  downloadBlob(blob, `${filename}.csv`)
+}
+
+export async function exportXlsx(rows: ExportRow[], filename: string, sheetName = 'Datos') {
+  const XLSX = await import('xlsx')
+  const columns = getColumns(rows)
+  const sheetRows = rows.map((row) =>
+    columns.map((col) => {
+      const value = row[col]
+      if (value === null || value === undefined) return null
+      if (typeof value === 'number' || typeof value === 'boolean' || value instanceof Date) return value
+      if (typeof value === 'string') return toSpreadsheetNumber(value) ?? value
+      return toCellText(value)
+    })
+  )
+
+  const worksheet = XLSX.utils.aoa_to_sheet([columns, ...sheetRows])
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, worksheet, sheetName)
+  const buffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' })
+
+  downloadBlob(
+    new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    `${filename}.xlsx`
+  )
+}
+
+// Tab-separated text pastes straight into Excel/Sheets cells
+export async function copyAsTsv(rows: ExportRow[]) {
+  await navigator.clipboard.writeText(toDelimited(rows, '\t'))
+}
@@ -0,0 +1,281 @@
+/**
+ * Pre-upload inspection of data files
+ *
+ * Reads headers and the first rows of CSV and Excel files in the browser, so
+ * problems the server would report after uploading (empty files, missing
+ * headers, corrupt workbooks, oversized files) show up before sending anything.
+ */
+
+import type { ValidationError } from './api'
+import type { WorkbookSheet } from './excel-preview'
+import type { ExcelPreviewRequest, ExcelPreviewResponse } from './excel-preview.worker'
+
+export const MAX_FILE_SIZE_BYTES = 500 * 1024 * 1024
+// Workbooks have to be read whole; past this we skip the preview
+const MAX_EXCEL_PREVIEW_BYTES = 50 * 1024 * 1024
+// Enough of a CSV to sniff its format and show a few rows
+const CSV_SAMPLE_BYTES = 64 * 1024
+const PREVIEW_ROWS = 5
+// Give up on a preview that takes longer than this
+const EXCEL_PREVIEW_TIMEOUT_MS = 20_000
+
+const DELIMITERS = [',', ';', '\t', '|']
+
+export type PreviewCell = string | number | boolean | null
+
+export interface SheetPreview {
+  name: string
+  headers: string[]
+  rows: PreviewCell[][]
+  // Data rows, excluding the header; unknown for CSVs we only sampled
+  rowCount?: number
+  // Same categories as the server's ValidationError
+  errorType?: 'empty' | 'no_headers'
+}
+
+export interface FileIssue {
+  errorType: ValidationError['errorType']
+  message: string
+  suggestion: string
+}
+
+export interface FileInspection {
+  kind: 'csv' | 'excel' | 'document'
+  delimiter?: string
+  encoding?: string
+  sheets: SheetPreview[]
+  // Problems that make the whole file unusable
+  issues: FileIssue[]
+}
+
+export const delimiterLabels: Record<string, string> = {
+  ',': 'coma',
+  ';': 'punto y coma',
+  '\t': 'tabulador',
+  '|': 'barra vertical',
+}
+
+function fileExtension(file: File): string {
+  return file.name.split('.').pop()?.toLowerCase() || ''
+}
+
+// A header row needs at least one named column. When every name is a number
+// the first row is usually already data; some numeric names ("2023", "2024")
+// are ordinary headers.
+function headerProblem(headers: string[]): boolean {
+  const named = headers.filter((header) => header.trim() !== '')
+  return named.length === 0 || named.every((header) => /^-?\d+([.,]\d+)?$/.test(header.trim()))
+}
+
+function sheetIssues(sheet: Omit<SheetPreview, 'errorType'>): SheetPreview['errorType'] {
+  if (sheet.headers.length === 0 && sheet.rows.length === 0) return 'empty'
+  if (headerProblem(sheet.headers)) return 'no_headers'
+  if (sheet.rows.length === 0) return 'empty'
+  return undefined
+}
+
+// ============================================
+// CSV
+// ============================================
+
+// BOM first, then strict UTF-8, then the Windows code page most Mexican
+// spreadsheets export with
+function decodeSample(bytes: Uint8Array): { text: string; encoding: string } {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'UTF-8' }
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'UTF-16 LE' }
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'UTF-16 BE' }
+  }
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'UTF-8' }
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'Windows-1252' }
+  }
+}
+
+// Split one line on a delimiter, honouring double quotes
+function splitLine(line: string, delimiter: string): string[] {
+  const cells: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else {
+        quoted = !quoted
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(cell)
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  cells.push(cell)
+  return cells
+}
+
+// The delimiter that splits the sample lines into the same, largest number of columns
+function detectDelimiter(lines: string[]): string {
+  let best = ','
+  let bestScore = 0
+
+  DELIMITERS.forEach((delimiter) => {
+    const counts = lines.map((line) => splitLine(line, delimiter).length)
+    const columns = counts[0]
+    if (columns < 2) return
+    const score = columns * counts.filter((count) => count === columns).length
+    if (score > bestScore) {
+      best = delimiter
+      bestScore = score
+    }
+  })
+
+  return best
+}
+
+async function inspectCsv(file: File): Promise<FileInspection> {
+  let bytes = new Uint8Array(await file.slice(0, CSV_SAMPLE_BYTES).arrayBuffer())
+  // Cut at the last full line so we never decode half a character or row
+  if (file.size > CSV_SAMPLE_BYTES) {
+    const lastNewline = bytes.lastIndexOf(0x0a)
+    if (lastNewline > 0) bytes = bytes.subarray(0, lastNewline)
+  }
+
+  const { text, encoding } = decodeSample(bytes)
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '')
+  const delimiter = detectDelimiter(lines.slice(0, PREVIEW_ROWS + 1))
+  const [headerLine, ...dataLines] = lines
+
+  const sheet = {
+    name: file.name,
+    headers: headerLine ? splitLine(headerLine, delimiter).map((header) => header.trim()) : [],
+    rows: dataLines.slice(0, PREVIEW_ROWS).map((line) => splitLine(line, delimiter)),
+    rowCount: file.size > CSV_SAMPLE_BYTES ? undefined : dataLines.length,
+  }
+
+  return {
+    kind: 'csv',
+    delimiter,
+    encoding,
+    sheets: [{ ...sheet, errorType: sheetIssues(sheet) }],
+    issues: [],
+  }
+}
+
+// ============================================
+// Excel
+// ============================================
+
+class PreviewTimeoutError extends Error {}
+
+// Parse in a worker: a big workbook is decoded whole even with sheetRows
+function parseWorkbook(data: ArrayBuffer): Promise<WorkbookSheet[]> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./excel-preview.worker.ts', import.meta.url))
+    const timer = setTimeout(() => {
+      worker.terminate()
+      reject(new PreviewTimeoutError())
+    }, EXCEL_PREVIEW_TIMEOUT_MS)
+
+    const finish = () => {
+      clearTimeout(timer)
+      worker.terminate()
+    }
+    worker.onmessage = ({ data: response }: MessageEvent<ExcelPreviewResponse>) => {
+      finish()
+      if (response.ok) resolve(response.sheets)
+      else reject(new Error(response.message))
+    }
+    worker.onerror = (event) => {
+      finish()
+      reject(new Error(event.message))
+    }
+
+    const request: ExcelPreviewRequest = { data, previewRows: PREVIEW_ROWS }
+    worker.postMessage(request, [data])
+  })
+}
+
+async function inspectExcel(file: File): Promise<FileInspection> {
+  if (file.size > MAX_EXCEL_PREVIEW_BYTES) {
+    return { kind: 'excel', sheets: [], issues: [] }
+  }
+
+  let workbook: WorkbookSheet[]
+  try {
+    workbook = await parseWorkbook(await file.arrayBuffer())
+  } catch (error) {
+    // Slow isn't broken: skip the preview and let the server analyze it
+    if (error instanceof PreviewTimeoutError) return { kind: 'excel', sheets: [], issues: [] }
+    throw error
+  }
+
+  const sheets = workbook.map((sheet) => ({ ...sheet, errorType: sheetIssues(sheet) }))
+  return { kind: 'excel', sheets, issues: [] }
+}
+
+// ============================================
+// Entry point
+// ============================================
+
+const issueCopy: Record<FileIssue['errorType'], Omit<FileIssue, 'errorType'>> = {
+  too_large: {
+    message: 'El archivo es demasiado grande',
+    suggestion: `Divide el archivo en partes de menos de ${MAX_FILE_SIZE_BYTES / (1024 * 1024)} MB`,
+  },
+  empty: {
+    message: 'El archivo no contiene datos',
+    suggestion: 'Verifica que exportaste el archivo correcto',
+  },
+  no_headers: {
+    message: 'No se encontraron encabezados de columna',
+    suggestion: 'La primera fila debe tener los nombres de las columnas',
+  },
+  corrupt: {
+    message: 'No se pudo leer el archivo',
+    suggestion: 'Ábrelo en Excel y vuelve a guardarlo, o expórtalo como CSV',
+  },
+  unsupported: {
+    message: 'Formato no soportado',
+    suggestion: 'Usa Excel (.xlsx, .xls), CSV, PDF o Word',
+  },
+  schema_failed: {
+    message: 'La estructura del archivo no es válida',
+    suggestion: 'Revisa que todas las filas tengan las mismas columnas',
+  },
+}
+
+const issue = (errorType: FileIssue['errorType']): FileIssue => ({ errorType, ...issueCopy[errorType] })
+
+export async function inspectFile(file: File): Promise<FileInspection> {
+  const extension = fileExtension(file)
+  const kind = extension === 'csv' ? 'csv' : ['xlsx', 'xls'].includes(extension) ? 'excel' : 'document'
+
+  if (file.size === 0) return { kind, sheets: [], issues: [issue('empty')] }
+  if (file.size > MAX_FILE_SIZE_BYTES) return { kind, sheets: [], issues: [issue('too_large')] }
+  if (kind === 'document') return { kind, sheets: [], issues: [] }
+
+  let inspection: FileInspection
+  try {
+    inspection = kind === 'csv' ? await inspectCsv(file) : await inspectExcel(file)
+  } catch {
+    return { kind, sheets: [], issues: [issue('corrupt')] }
+  }
+
+  // A file is only unusable when none of its sheets is
+  const usable = inspection.sheets.some((sheet) => !sheet.errorType)
+  if (inspection.sheets.length > 0 && !usable) {
+    const errorType = inspection.sheets.every((sheet) => sheet.errorType === 'empty') ? 'empty' : 'no_headers'
+    inspection.issues.push(issue(errorType))
+  }
+  return inspection
+}
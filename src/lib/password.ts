@@ -0,0 +1,40 @@
+/**
+ * Password strength rules shared by register, reset and change-password forms
+ */
+
+export const MIN_PASSWORD_LENGTH = 8
+
+export interface PasswordCheck {
+  label: string
+  passed: boolean
+}
+
+export interface PasswordStrength {
+  score: number
+  label: string
+  checks: PasswordCheck[]
+  isAcceptable: boolean
+}
+
+const strengthLabels = ['Muy débil', 'Débil', 'Regular', 'Buena', 'Fuerte']
+
+export function passwordStrength(password: string): PasswordStrength {
+  const checks: PasswordCheck[] = [
+    { label: `Al menos ${MIN_PASSWORD_LENGTH} caracteres`, passed: password.length >= MIN_PASSWORD_LENGTH },
+    { label: 'Mayúsculas y minúsculas', passed: /[a-z]/.test(password) && /[A-Z]/.test(password) },
+    { label: 'Al menos un número', passed: /\d/.test(password) },
+    { label: 'Al menos un símbolo', passed: /[^A-Za-z0-9]/.test(password) },
+  ]
+
+  const passed = checks.filter((check) => check.passed).length
+  // Long passphrases earn the last point even without every character class
+  const score = Math.min(passed + (password.length >= 14 ? 1 : 0), 4)
+
+  return {
+    score,
+    label: strengthLabels[score],
+    checks,
+    // Length is mandatory; otherwise "Regular" or better
+    isAcceptable: checks[0].passed && score >= 2,
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Role-based permissions for organization members
+ */
+
+import type { OrgRole } from './api'
+import { effectiveRole } from './roles'
+
+export type Permission =
+  | 'dataSources:upload'
+  | 'dataSources:delete'
+  | 'quality:recalculate'
+  | 'conversations:delete'
+  | 'members:manage'
+
+// Chatting and reading data are open to every role
+const rolePermissions: Record<OrgRole, Permission[]> = {
+  owner: ['dataSources:upload', 'dataSources:delete', 'quality:recalculate', 'conversations:delete', 'members:manage'],
+  admin: ['dataSources:upload', 'dataSources:delete', 'quality:recalculate', 'conversations:delete', 'members:manage'],
+  analyst: ['dataSources:upload', 'quality:recalculate', 'conversations:delete'],
+  viewer: [],
+}
+
+export function hasPermission(role: OrgRole | undefined, permission: Permission): boolean {
+  return rolePermissions[effectiveRole(role)].includes(permission)
+}
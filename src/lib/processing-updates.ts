@@ -0,0 +1,127 @@
+'use client'
+
+/**
+ * Live processing status
+ *
+ * Status updates arrive over a Server-Sent Events stream that reconnects when
+ * it drops or goes quiet. When the server can't stream, or the stream keeps
+ * failing, we fall back to polling, backing off while requests fail.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { onboardingApi, ApiError, type ProcessingStatus } from './api'
+
+const POLL_INTERVAL_MS = 2000
+const MAX_RETRY_DELAY_MS = 30_000
+// Stream failures in a row before switching to polling
+const MAX_STREAM_FAILURES = 3
+
+// live: streaming; polling: fallback; reconnecting: the last attempt failed
+export type StatusConnection = 'connecting' | 'live' | 'polling' | 'reconnecting'
+
+// Stages that wait on the user or are final: no updates until they act
+export function isSettled(status: ProcessingStatus): boolean {
+  return status.stage === 'ready' || status.stage === 'needs_clarification' || !!status.error
+}
+
+// Client errors won't fix themselves by retrying; timeouts and rate limits will
+function isPermanent(error: unknown): boolean {
+  return error instanceof ApiError && error.status >= 400 && error.status < 500 && ![408, 429].includes(error.status)
+}
+
+function retryDelay(failures: number): number {
+  return Math.min(POLL_INTERVAL_MS * 2 ** (failures - 1), MAX_RETRY_DELAY_MS)
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    }, { once: true })
+  })
+}
+
+// Follow the processing status until it settles. Paused while `enabled` is false.
+export function useProcessingStatus(token: string | null, enabled = true) {
+  const [status, setStatus] = useState<ProcessingStatus | null>(null)
+  const [connection, setConnection] = useState<StatusConnection>('connecting')
+  const [error, setError] = useState<string | null>(null)
+  // Bumped to follow the status again after it settled
+  const [run, setRun] = useState(0)
+
+  useEffect(() => {
+    if (!token || !enabled) return
+
+    const controller = new AbortController()
+    const { signal } = controller
+    let settled = false
+
+    const receive = (result: ProcessingStatus) => {
+      setStatus(result)
+      setError(null)
+      settled = isSettled(result)
+      // Nothing more to hear until the user acts
+      if (settled) controller.abort()
+    }
+
+    const stream = async () => {
+      let failures = 0
+      while (failures < MAX_STREAM_FAILURES) {
+        try {
+          await onboardingApi.streamProcessingStatus(token, (result) => {
+            failures = 0
+            setConnection('live')
+            receive(result)
+          }, signal)
+          // Server closed the stream: reconnect after a moment
+          await wait(POLL_INTERVAL_MS, signal)
+        } catch (err) {
+          if (signal.aborted) return
+          if (err instanceof ApiError && err.code === 'StreamUnavailable') break
+          if (isPermanent(err)) break
+          failures++
+          setConnection('reconnecting')
+          await wait(retryDelay(failures), signal)
+        }
+      }
+    }
+
+    const poll = async () => {
+      let failures = 0
+      while (!settled) {
+        try {
+          receive(await onboardingApi.getProcessingStatus(token, { signal }))
+          failures = 0
+          setConnection('polling')
+        } catch (err) {
+          if (signal.aborted) return
+          if (isPermanent(err)) {
+            setError(err instanceof Error ? err.message : 'Error al obtener estado')
+            return
+          }
+          failures++
+          setConnection('reconnecting')
+        }
+        if (!settled) await wait(failures ? retryDelay(failures) : POLL_INTERVAL_MS, signal)
+      }
+    }
+
+    stream()
+      .then(() => {
+        if (!signal.aborted) return poll()
+      })
+      .catch(() => {/* aborted on unmount or once settled */})
+
+    return () => controller.abort()
+  }, [token, enabled, run])
+
+  // Start following again, e.g. after a retry, optionally from a known status
+  const restart = useCallback((next?: ProcessingStatus) => {
+    if (next) setStatus(next)
+    setRun((prev) => prev + 1)
+  }, [])
+
+  return { status, connection, error, restart }
+}
@@ -0,0 +1,40 @@
+/**
+ * Organization roles, ordered from most to least privileged
+ */
+
+import type { OrgRole } from './api'
+
+export const ORG_ROLES: OrgRole[] = ['owner', 'admin', 'analyst', 'viewer']
+
+export const roleLabels: Record<OrgRole, string> = {
+  owner: 'Propietario',
+  admin: 'Administrador',
+  analyst: 'Analista',
+  viewer: 'Lector',
+}
+
+export const roleDescriptions: Record<OrgRole, string> = {
+  owner: 'Control total, incluida la facturación y la organización',
+  admin: 'Administra miembros, datos y configuración',
+  analyst: 'Sube datos y hace preguntas',
+  viewer: 'Solo puede consultar y chatear',
+}
+
+// Accounts created before roles existed own their organization; until the
+// backend always sends a role, a missing one keeps that full access
+export function effectiveRole(role: OrgRole | undefined): OrgRole {
+  return role ?? 'owner'
+}
+
+const rank = (role: OrgRole | undefined) => ORG_ROLES.indexOf(effectiveRole(role))
+
+// Roles a member can grant: their own and those below it
+export function assignableRoles(role: OrgRole | undefined): OrgRole[] {
+  return ORG_ROLES.slice(rank(role))
+}
+
+// Members can only change or remove those at or below their own role, so
+// admins can't touch owners
+export function canManageRole(role: OrgRole | undefined, target: OrgRole): boolean {
+  return rank(target) >= rank(role)
+}
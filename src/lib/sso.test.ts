@@ -0,0 +1,172 @@
+import { createHash } from 'node:crypto'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SsoProvider } from './api'
+import { completeSsoLogin, consumeSsoAttempt, startSsoLogin, type SsoAttempt } from './sso'
+
+const ATTEMPT_KEY = 'iavoqado_sso_attempt'
+
+const provider: SsoProvider = {
+  id: 'okta',
+  name: 'Okta',
+  kind: 'oidc',
+  authorizationEndpoint: 'https://idp.test/oauth2/authorize',
+  clientId: 'client-1',
+  scopes: ['openid', 'email'],
+}
+
+const assign = vi.fn()
+
+function storedAttempt(): SsoAttempt {
+  return JSON.parse(sessionStorage.getItem(ATTEMPT_KEY)!)
+}
+
+// Start a login and return the state the provider would send back
+async function startLogin(next?: string): Promise<string> {
+  await startSsoLogin(provider, { next })
+  return storedAttempt().state
+}
+
+beforeEach(() => {
+  const store = new Map<string, string>()
+  vi.stubGlobal('sessionStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key),
+  })
+  vi.stubGlobal('window', { location: { origin: 'https://app.test', assign } })
+})
+
+afterEach(() => {
+  assign.mockReset()
+  vi.unstubAllGlobals()
+  vi.useRealTimers()
+})
+
+describe('startSsoLogin', () => {
+  it('sends the user to the provider with an S256 PKCE challenge', async () => {
+    await startSsoLogin(provider, { loginHint: 'ana@empresa.com' })
+    const attempt = storedAttempt()
+    const url = new URL(assign.mock.calls[0][0])
+
+    expect(url.origin + url.pathname).toBe(provider.authorizationEndpoint)
+    expect(Object.fromEntries(url.searchParams)).toMatchObject({
+      response_type: 'code',
+      client_id: 'client-1',
+      redirect_uri: 'https://app.test/auth/callback',
+      scope: 'openid email',
+      state: attempt.state,
+      code_challenge_method: 'S256',
+      login_hint: 'ana@empresa.com',
+    })
+    // RFC 7636: BASE64URL(SHA256(verifier)) without padding
+    expect(url.searchParams.get('code_challenge')).toBe(
+      createHash('sha256').update(attempt.codeVerifier).digest('base64url')
+    )
+    expect(attempt.codeVerifier).toMatch(/^[A-Za-z0-9_-]{43,128}$/)
+  })
+
+  it('uses a fresh state and verifier for every attempt', async () => {
+    const first = await startLogin()
+    const firstVerifier = storedAttempt().codeVerifier
+    const second = await startLogin()
+
+    expect(second).not.toBe(first)
+    expect(storedAttempt().codeVerifier).not.toBe(firstVerifier)
+  })
+})
+
+describe('consumeSsoAttempt', () => {
+  it('returns the attempt for its state', async () => {
+    const state = await startLogin('/data')
+    expect(consumeSsoAttempt(state)).toMatchObject({ providerId: 'okta', state, next: '/data' })
+  })
+
+  it('rejects a state that does not match', async () => {
+    await startLogin()
+    expect(consumeSsoAttempt('forged')).toBeNull()
+  })
+
+  it('can only be used once', async () => {
+    const state = await startLogin()
+    expect(consumeSsoAttempt(state)).not.toBeNull()
+    expect(consumeSsoAttempt(state)).toBeNull()
+  })
+
+  it('is dropped even when the state does not match', async () => {
+    const state = await startLogin()
+    consumeSsoAttempt('forged')
+    expect(consumeSsoAttempt(state)).toBeNull()
+  })
+
+  it('expires ten minutes after it started', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+    const state = await startLogin()
+    const stored = sessionStorage.getItem(ATTEMPT_KEY)!
+
+    vi.setSystemTime(new Date('2025-01-01T00:10:00Z'))
+    expect(consumeSsoAttempt(state)).not.toBeNull()
+
+    sessionStorage.setItem(ATTEMPT_KEY, stored)
+    vi.setSystemTime(new Date('2025-01-01T00:10:00.001Z'))
+    expect(consumeSsoAttempt(state)).toBeNull()
+  })
+})
+
+describe('completeSsoLogin', () => {
+  it('redeems the code with the stored verifier and returns to the requested page', async () => {
+    const state = await startLogin('/data?tab=schema')
+    const { codeVerifier } = storedAttempt()
+    const login = vi.fn(async () => {})
+
+    const destination = await completeSsoLogin(new URLSearchParams({ code: 'code-1', state }), login)
+
+    expect(login).toHaveBeenCalledWith({
+      providerId: 'okta',
+      code: 'code-1',
+      codeVerifier,
+      redirectUri: 'https://app.test/auth/callback',
+    })
+    expect(destination).toBe(`/?next=${encodeURIComponent('/data?tab=schema')}`)
+  })
+
+  it('ignores a next path that leaves the site', async () => {
+    const state = await startLogin('https://evil.test/phish')
+
+    await expect(completeSsoLogin(new URLSearchParams({ code: 'code-1', state }), async () => {})).resolves.toBe('/')
+  })
+
+  it('reports an error sent back by the provider', async () => {
+    await startLogin()
+    const login = vi.fn()
+
+    await expect(completeSsoLogin(
+      new URLSearchParams({ error: 'access_denied', error_description: 'Usuario no asignado' }),
+      login
+    )).rejects.toThrow('Usuario no asignado')
+    expect(login).not.toHaveBeenCalled()
+  })
+
+  it('rejects a callback without a matching attempt', async () => {
+    await startLogin()
+    const login = vi.fn()
+
+    await expect(completeSsoLogin(new URLSearchParams({ code: 'code-1', state: 'forged' }), login))
+      .rejects.toThrow('no es válida o expiró')
+    expect(login).not.toHaveBeenCalled()
+  })
+
+  it('rejects a callback without a code', async () => {
+    const state = await startLogin()
+
+    await expect(completeSsoLogin(new URLSearchParams({ state }), vi.fn())).rejects.toThrow('no es válida o expiró')
+  })
+
+  it('passes login failures through', async () => {
+    const state = await startLogin()
+
+    await expect(completeSsoLogin(new URLSearchParams({ code: 'code-1', state }), async () => {
+      throw new Error('Código inválido')
+    })).rejects.toThrow('Código inválido')
+  })
+})
@@ -0,0 +1,117 @@
+/**
+ * OIDC authorization-code + PKCE login
+ *
+ * The browser sends the user to the identity provider, and the provider sends
+ * them back to /auth/callback. The backend exchanges the code, so the client
+ * secret never reaches the browser.
+ */
+
+import type { SsoProvider } from './api'
+import { toInAppPath } from './auth-context'
+
+const SSO_ATTEMPT_KEY = 'iavoqado_sso_attempt'
+// An abandoned attempt is stale after this long
+const ATTEMPT_TTL_MS = 10 * 60 * 1000
+
+// What we need to finish a login once the provider redirects back
+export interface SsoAttempt {
+  providerId: string
+  state: string
+  codeVerifier: string
+  redirectUri: string
+  next?: string
+  createdAt: number
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+function randomString(byteLength = 32): string {
+  return base64Url(crypto.getRandomValues(new Uint8Array(byteLength)))
+}
+
+// S256 challenge as defined in RFC 7636
+async function codeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))
+  return base64Url(new Uint8Array(digest))
+}
+
+export function ssoRedirectUri(): string {
+  return `${window.location.origin}/auth/callback`
+}
+
+// Leave for the provider's login page; the attempt survives the round trip in
+// sessionStorage, scoped to this tab
+export async function startSsoLogin(
+  provider: SsoProvider,
+  { loginHint, next }: { loginHint?: string; next?: string | null } = {}
+): Promise<void> {
+  const attempt: SsoAttempt = {
+    providerId: provider.id,
+    state: randomString(),
+    codeVerifier: randomString(48),
+    redirectUri: ssoRedirectUri(),
+    next: next || undefined,
+    createdAt: Date.now(),
+  }
+  sessionStorage.setItem(SSO_ATTEMPT_KEY, JSON.stringify(attempt))
+
+  const url = new URL(provider.authorizationEndpoint)
+  url.searchParams.set('response_type', 'code')
+  url.searchParams.set('client_id', provider.clientId)
+  url.searchParams.set('redirect_uri', attempt.redirectUri)
+  url.searchParams.set('scope', provider.scopes.join(' ') || 'openid email profile')
+  url.searchParams.set('state', attempt.state)
+  url.searchParams.set('code_challenge', await codeChallenge(attempt.codeVerifier))
+  url.searchParams.set('code_challenge_method', 'S256')
+  if (loginHint) url.searchParams.set('login_hint', loginHint)
+
+  window.location.assign(url.toString())
+}
+
+// The pending attempt for this state, removed so a code can't be replayed.
+// Null when there is none, it's stale, or the state doesn't match (CSRF).
+export function consumeSsoAttempt(state: string | null): SsoAttempt | null {
+  const stored = sessionStorage.getItem(SSO_ATTEMPT_KEY)
+  sessionStorage.removeItem(SSO_ATTEMPT_KEY)
+  if (!stored || !state) return null
+
+  try {
+    const attempt: SsoAttempt = JSON.parse(stored)
+    if (attempt.state !== state || Date.now() - attempt.createdAt > ATTEMPT_TTL_MS) return null
+    return attempt
+  } catch {
+    return null
+  }
+}
+
+export type SsoLogin = (data: { providerId: string; code: string; codeVerifier: string; redirectUri: string }) => Promise<void>
+
+// Finish the login the provider redirected back with and return where to go
+// next. Throws with a message for the user when the response can't be used.
+export async function completeSsoLogin(params: Pick<URLSearchParams, 'get'>, login: SsoLogin): Promise<string> {
+  const providerError = params.get('error')
+  if (providerError) {
+    throw new Error(params.get('error_description') || 'El proveedor rechazó el inicio de sesión')
+  }
+
+  const code = params.get('code')
+  const attempt = consumeSsoAttempt(params.get('state'))
+  if (!code || !attempt) {
+    throw new Error('La solicitud de inicio de sesión no es válida o expiró. Intenta de nuevo.')
+  }
+
+  await login({
+    providerId: attempt.providerId,
+    code,
+    codeVerifier: attempt.codeVerifier,
+    redirectUri: attempt.redirectUri,
+  })
+  // The home page routes signed-in users, honouring `next`
+  const next = toInAppPath(attempt.next)
+  return next ? `/?next=${encodeURIComponent(next)}` : '/'
+}
@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ApiError, uploadsApi, type UploadSession } from './api'
+import { fileKey, uploadFile } from './uploads'
+
+const STORAGE_KEY = 'iavoqado_uploads'
+// Sessions are remembered by name, size and date
+const RESUME_KEY = 'ventas.csv:10:1'
+
+const file = new File(['abcdefghij'], 'ventas.csv', { type: 'text/csv', lastModified: 1 })
+
+function session(offset: number, changes: Partial<UploadSession> = {}): { upload: UploadSession } {
+  return { upload: { id: 'up-1', fileName: file.name, size: file.size, offset, chunkSize: 4, ...changes } }
+}
+
+function storedSessions(): Record<string, string> {
+  return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}')
+}
+
+// The server accepts whatever chunk it gets and reports the new offset
+function acceptChunks() {
+  return vi.spyOn(uploadsApi, 'uploadChunk').mockImplementation(async (_token, _id, offset, chunk) =>
+    session(offset + chunk.size)
+  )
+}
+
+beforeEach(() => {
+  const store = new Map<string, string>()
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key),
+  })
+  vi.useFakeTimers()
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  vi.unstubAllGlobals()
+  vi.useRealTimers()
+})
+
+describe('uploadFile', () => {
+  it('uploads a new file in chunks of the server size', async () => {
+    const create = vi.spyOn(uploadsApi, 'create').mockResolvedValue(session(0))
+    const uploadChunk = acceptChunks()
+    const progress: number[] = []
+
+    await expect(uploadFile('token-1', file, { onProgress: (bytes) => progress.push(bytes) })).resolves.toBe('up-1')
+    expect(create).toHaveBeenCalledWith(
+      'token-1',
+      { fileName: 'ventas.csv', size: 10, mimeType: 'text/csv' },
+      expect.anything()
+    )
+    expect(uploadChunk.mock.calls.map((call) => [call[2], call[3].size])).toEqual([[0, 4], [4, 4], [8, 2]])
+    expect(progress).toEqual([0, 4, 8, 10])
+  })
+
+  it('forgets the session once the upload finishes', async () => {
+    vi.spyOn(uploadsApi, 'create').mockResolvedValue(session(0))
+    const uploadChunk = vi.spyOn(uploadsApi, 'uploadChunk')
+    uploadChunk.mockImplementationOnce(async () => {
+      expect(storedSessions()).toEqual({ [RESUME_KEY]: 'up-1' })
+      return session(10)
+    })
+
+    await uploadFile('token-1', file)
+    expect(storedSessions()).toEqual({})
+  })
+
+  it('resumes a stored session from the server offset', async () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ [RESUME_KEY]: 'up-1' }))
+    const create = vi.spyOn(uploadsApi, 'create')
+    vi.spyOn(uploadsApi, 'get').mockResolvedValue(session(6))
+    const uploadChunk = acceptChunks()
+
+    await expect(uploadFile('token-1', file)).resolves.toBe('up-1')
+    expect(create).not.toHaveBeenCalled()
+    expect(uploadChunk.mock.calls.map((call) => call[2])).toEqual([6])
+  })
+
+  it('starts over when the stored session expired', async () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ [RESUME_KEY]: 'up-old' }))
+    vi.spyOn(uploadsApi, 'get').mockRejectedValue(new ApiError(410, 'Gone', 'Expired'))
+    const create = vi.spyOn(uploadsApi, 'create').mockResolvedValue(session(0, { id: 'up-2' }))
+    acceptChunks()
+
+    await expect(uploadFile('token-1', file)).resolves.toBe('up-2')
+    expect(create).toHaveBeenCalledTimes(1)
+  })
+
+  it('gives copies of the same file their own key and session', async () => {
+    const copy = new File(['abcdefghij'], 'ventas.csv', { type: 'text/csv', lastModified: 1 })
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ [RESUME_KEY]: 'up-1' }))
+    vi.spyOn(uploadsApi, 'get').mockResolvedValue(session(0))
+    const create = vi.spyOn(uploadsApi, 'create').mockResolvedValue(session(0, { id: 'up-2' }))
+    acceptChunks()
+
+    expect(fileKey(copy)).not.toBe(fileKey(file))
+    await expect(Promise.all([uploadFile('token-1', file), uploadFile('token-1', copy)])).resolves.toEqual(['up-1', 'up-2'])
+    expect(create).toHaveBeenCalledTimes(1)
+  })
+
+  it('continues from the server offset after a 409', async () => {
+    vi.spyOn(uploadsApi, 'create').mockResolvedValue(session(0))
+    const get = vi.spyOn(uploadsApi, 'get').mockResolvedValue(session(6))
+    const uploadChunk = acceptChunks()
+    uploadChunk.mockRejectedValueOnce(new ApiError(409, 'OffsetMismatch', 'Offset mismatch'))
+
+    const result = uploadFile('token-1', file)
+    await vi.runAllTimersAsync()
+
+    await expect(result).resolves.toBe('up-1')
+    expect(get).toHaveBeenCalledTimes(1)
+    expect(uploadChunk.mock.calls.map((call) => call[2])).toEqual([0, 6])
+  })
+
+  it('counts failed offset probes as retries', async () => {
+    vi.spyOn(uploadsApi, 'create').mockResolvedValue(session(0))
+    const get = vi.spyOn(uploadsApi, 'get')
+      .mockRejectedValueOnce(new ApiError(0, 'NetworkError', 'Offline'))
+      .mockResolvedValue(session(4))
+    const uploadChunk = acceptChunks()
+    uploadChunk.mockRejectedValueOnce(new ApiError(0, 'NetworkError', 'Offline'))
+
+    const result = uploadFile('token-1', file)
+    await vi.runAllTimersAsync()
+
+    await expect(result).resolves.toBe('up-1')
+    expect(get).toHaveBeenCalledTimes(2)
+    expect(uploadChunk.mock.calls.map((call) => call[2])).toEqual([0, 4, 8])
+  })
+
+  it('gives up after repeated failures and keeps the session to resume', async () => {
+    vi.spyOn(uploadsApi, 'create').mockResolvedValue(session(0))
+    vi.spyOn(uploadsApi, 'get').mockResolvedValue(session(0))
+    const uploadChunk = vi.spyOn(uploadsApi, 'uploadChunk')
+      .mockRejectedValue(new ApiError(503, 'Unavailable', 'Try later'))
+
+    const result = expect(uploadFile('token-1', file)).rejects.toMatchObject({ status: 503 })
+    await vi.runAllTimersAsync()
+    await result
+
+    expect(uploadChunk).toHaveBeenCalledTimes(4)
+    expect(storedSessions()).toEqual({ [RESUME_KEY]: 'up-1' })
+  })
+
+  it('gives up when the server accepts chunks without advancing', async () => {
+    vi.spyOn(uploadsApi, 'create').mockResolvedValue(session(0))
+    vi.spyOn(uploadsApi, 'get').mockResolvedValue(session(4))
+    const uploadChunk = vi.spyOn(uploadsApi, 'uploadChunk').mockResolvedValue(session(4))
+
+    const result = expect(uploadFile('token-1', file)).rejects.toMatchObject({ code: 'OffsetNotAdvanced' })
+    await vi.runAllTimersAsync()
+    await result
+
+    // The first chunk moves to 4; every resend from there is stuck
+    expect(uploadChunk.mock.calls.map((call) => call[2])).toEqual([0, 4, 4, 4, 4])
+  })
+
+  it('keeps the retry limit when the recovered offset does not move', async () => {
+    vi.spyOn(uploadsApi, 'create').mockResolvedValue(session(0))
+    const get = vi.spyOn(uploadsApi, 'get').mockResolvedValue(session(0))
+    const uploadChunk = vi.spyOn(uploadsApi, 'uploadChunk')
+      .mockRejectedValue(new ApiError(409, 'OffsetMismatch', 'Offset mismatch'))
+
+    const result = expect(uploadFile('token-1', file)).rejects.toMatchObject({ status: 409 })
+    await vi.runAllTimersAsync()
+    await result
+
+    expect(uploadChunk).toHaveBeenCalledTimes(4)
+    expect(get).toHaveBeenCalledTimes(3)
+  })
+
+  it('stops waiting for a retry once paused', async () => {
+    vi.spyOn(uploadsApi, 'create').mockResolvedValue(session(0))
+    const uploadChunk = vi.spyOn(uploadsApi, 'uploadChunk').mockRejectedValue(new ApiError(0, 'NetworkError', 'Offline'))
+    const controller = new AbortController()
+
+    const result = expect(uploadFile('token-1', file, { signal: controller.signal })).rejects.toThrow('Paused')
+    await vi.advanceTimersByTimeAsync(0)
+    expect(vi.getTimerCount()).toBe(1)
+    controller.abort(new DOMException('Paused', 'AbortError'))
+    await result
+
+    expect(vi.getTimerCount()).toBe(0)
+    expect(uploadChunk).toHaveBeenCalledTimes(1)
+  })
+
+  it('stops when paused', async () => {
+    vi.spyOn(uploadsApi, 'create').mockResolvedValue(session(0))
+    const controller = new AbortController()
+    const uploadChunk = vi.spyOn(uploadsApi, 'uploadChunk').mockImplementation(async () => {
+      controller.abort()
+      throw new DOMException('Aborted', 'AbortError')
+    })
+
+    await expect(uploadFile('token-1', file, { signal: controller.signal })).rejects.toThrow('Aborted')
+    expect(uploadChunk).toHaveBeenCalledTimes(1)
+  })
+})
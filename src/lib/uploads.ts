@@ -0,0 +1,307 @@
+'use client'
+
+/**
+ * Chunked, resumable file uploads
+ *
+ * Each file gets a server-side upload session. Chunks are sent at the offset the
+ * server reports, so an interrupted upload resumes where it stopped, even after
+ * a reload: session ids are remembered per file in localStorage.
+ */
+
+import { useCallback, useRef, useState } from 'react'
+import { uploadsApi, ApiError, type UploadSession, type ProcessingFile } from './api'
+import { orgStorageKey } from './auth-context'
+
+const UPLOADS_STORAGE_KEY = 'iavoqado_uploads'
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024
+const MAX_CHUNK_RETRIES = 3
+const CHUNK_RETRY_DELAY_MS = 1000
+
+export type FileUploadStatus = 'uploading' | 'paused' | 'error' | 'done'
+
+export interface FileUploadState {
+  status: FileUploadStatus
+  uploadedBytes: number
+  totalBytes: number
+  error?: string
+}
+
+export interface UploadedFile {
+  file: File
+  uploadId: string
+}
+
+// Sheets chosen per workbook, keyed by fileKey()
+export type SheetSelection = Record<string, string[]>
+
+const fileIds = new WeakMap<File, string>()
+let nextFileId = 0
+// Upload sessions some file on this page is sending to right now
+const activeSessions = new Set<string>()
+
+// Identifies one selected file on this page, even when another selection has
+// the same name, size and date
+export function fileKey(file: File): string {
+  let id = fileIds.get(file)
+  if (!id) {
+    id = `${resumeKey(file)}#${++nextFileId}`
+    fileIds.set(file, id)
+  }
+  return id
+}
+
+// Identifies the same file contents across selections and reloads
+function resumeKey(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`
+}
+
+export function toProcessingFiles(uploaded: UploadedFile[], sheets: SheetSelection = {}): ProcessingFile[] {
+  return uploaded.map(({ file, uploadId }) => ({ uploadId, sheets: sheets[fileKey(file)] }))
+}
+
+function storedSessions(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(orgStorageKey(UPLOADS_STORAGE_KEY)) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+function rememberSession(key: string, uploadId: string | null) {
+  const sessions = storedSessions()
+  if (uploadId) sessions[key] = uploadId
+  else delete sessions[key]
+  localStorage.setItem(orgStorageKey(UPLOADS_STORAGE_KEY), JSON.stringify(sessions))
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// The stored session for this file if the server still has it, else a new one.
+// The session is claimed in activeSessions until the caller releases it.
+async function openSession(token: string, file: File, signal?: AbortSignal): Promise<UploadSession> {
+  const key = resumeKey(file)
+  const storedId = storedSessions()[key]
+
+  // A copy of the same file already sending to that session gets its own
+  if (storedId && !activeSessions.has(storedId)) {
+    activeSessions.add(storedId)
+    try {
+      const { upload } = await uploadsApi.get(token, storedId, { signal })
+      if (upload.size === file.size) return upload
+    } catch (error) {
+      // Expired or unknown sessions start over; anything else is a real failure
+      if (!(error instanceof ApiError && [404, 410].includes(error.status))) {
+        activeSessions.delete(storedId)
+        throw error
+      }
+    }
+    activeSessions.delete(storedId)
+    rememberSession(key, null)
+  }
+
+  const { upload } = await uploadsApi.create(
+    token,
+    { fileName: file.name, size: file.size, mimeType: file.type || 'application/octet-stream' },
+    { signal }
+  )
+  activeSessions.add(upload.id)
+  rememberSession(key, upload.id)
+  return upload
+}
+
+// Upload one file in chunks and resolve with its upload id. Aborting the
+// signal pauses: calling again resumes from the server's offset.
+export async function uploadFile(
+  token: string,
+  file: File,
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (uploadedBytes: number) => void } = {}
+): Promise<string> {
+  const session = await openSession(token, file, signal)
+  try {
+    return await sendChunks(token, file, session, { signal, onProgress })
+  } finally {
+    activeSessions.delete(session.id)
+  }
+}
+
+// Send what the server doesn't have yet, recovering the offset after failures
+async function sendChunks(
+  token: string,
+  file: File,
+  session: UploadSession,
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (uploadedBytes: number) => void }
+): Promise<string> {
+  const chunkSize = session.chunkSize || DEFAULT_CHUNK_SIZE
+  let offset = session.offset
+  let failures = 0
+  let needsOffset = false
+  onProgress?.(offset)
+
+  while (offset < file.size) {
+    try {
+      // After a failure part of the chunk may have landed (or the server
+      // rejected our offset with a 409): continue from what the server has
+      if (needsOffset) {
+        const recovered = (await uploadsApi.get(token, session.id, { signal })).upload.offset
+        needsOffset = false
+        // Only progress clears the failure count; otherwise the retry limit still applies
+        if (recovered > offset) failures = 0
+        offset = recovered
+        onProgress?.(offset)
+        continue
+      }
+
+      const { upload } = await uploadsApi.uploadChunk(
+        token,
+        session.id,
+        offset,
+        file.slice(offset, offset + chunkSize),
+        { signal }
+      )
+      // A server that accepts chunks without moving forward would have us resend forever
+      if (upload.offset <= offset) {
+        throw new ApiError(409, 'OffsetNotAdvanced', `Upload offset stuck at ${upload.offset}`)
+      }
+      offset = upload.offset
+      failures = 0
+      onProgress?.(offset)
+    } catch (error) {
+      if (signal?.aborted || ++failures > MAX_CHUNK_RETRIES) throw error
+      needsOffset = true
+      await wait(CHUNK_RETRY_DELAY_MS * 2 ** (failures - 1), signal)
+    }
+  }
+
+  // The server consumes finished uploads; a later selection starts fresh
+  rememberSession(resumeKey(file), null)
+  return session.id
+}
+
+// Drop a file's session on the server and locally
+export async function discardUpload(token: string, file: File): Promise<void> {
+  const key = resumeKey(file)
+  const uploadId = storedSessions()[key]
+  rememberSession(key, null)
+  if (uploadId) await uploadsApi.cancel(token, uploadId).catch(() => {/* expires on its own */})
+}
+
+interface Transfer {
+  controller: AbortController | null
+  paused: boolean
+  cancelled: boolean
+  wake: (() => void) | null
+}
+
+// Per-file upload state plus pause/resume/cancel for a batch of files
+export function useFileUploads(token: string | null) {
+  const [uploads, setUploads] = useState<Record<string, FileUploadState>>({})
+  const transfersRef = useRef(new Map<string, Transfer>())
+
+  const update = useCallback((key: string, changes: Partial<FileUploadState>) => {
+    setUploads((prev) => prev[key] ? { ...prev, [key]: { ...prev[key], ...changes } } : prev)
+  }, [])
+
+  // Runs until the file is uploaded (resolves with its id) or cancelled (null).
+  // Paused and failed files wait here until resumed.
+  const runTransfer = useCallback(async (activeToken: string, file: File): Promise<string | null> => {
+    const key = fileKey(file)
+    const transfer: Transfer = { controller: null, paused: false, cancelled: false, wake: null }
+    transfersRef.current.set(key, transfer)
+    setUploads((prev) => ({ ...prev, [key]: { status: 'uploading', uploadedBytes: 0, totalBytes: file.size } }))
+
+    try {
+      while (!transfer.cancelled) {
+        if (transfer.paused) {
+          await new Promise<void>((resolve) => {
+            transfer.wake = resolve
+          })
+          continue
+        }
+
+        transfer.controller = new AbortController()
+        try {
+          const uploadId = await uploadFile(activeToken, file, {
+            signal: transfer.controller.signal,
+            onProgress: (uploadedBytes) => update(key, { uploadedBytes }),
+          })
+          update(key, { status: 'done', uploadedBytes: file.size })
+          return uploadId
+        } catch (error) {
+          if (transfer.cancelled || transfer.paused) continue
+          transfer.paused = true
+          update(key, {
+            status: 'error',
+            error: error instanceof Error ? error.message : 'Error al subir el archivo',
+          })
+        }
+      }
+      return null
+    } finally {
+      transfersRef.current.delete(key)
+    }
+  }, [update])
+
+  // Upload every file; resolves with those not cancelled
+  const uploadFiles = useCallback(async (files: File[]): Promise<UploadedFile[]> => {
+    if (!token) return []
+    const uploadIds = await Promise.all(files.map((file) => runTransfer(token, file)))
+    return files
+      .map((file, index) => ({ file, uploadId: uploadIds[index] }))
+      .filter((upload): upload is UploadedFile => upload.uploadId !== null)
+  }, [token, runTransfer])
+
+  const pause = useCallback((key: string) => {
+    const transfer = transfersRef.current.get(key)
+    if (!transfer || transfer.paused) return
+    transfer.paused = true
+    transfer.controller?.abort()
+    update(key, { status: 'paused' })
+  }, [update])
+
+  // Also retries a file that failed
+  const resume = useCallback((key: string) => {
+    const transfer = transfersRef.current.get(key)
+    if (!transfer) return
+    transfer.paused = false
+    update(key, { status: 'uploading', error: undefined })
+    transfer.wake?.()
+    transfer.wake = null
+  }, [update])
+
+  const cancel = useCallback((file: File) => {
+    const key = fileKey(file)
+    const transfer = transfersRef.current.get(key)
+    if (transfer) {
+      transfer.cancelled = true
+      transfer.controller?.abort()
+      transfer.wake?.()
+    }
+    setUploads((prev) => {
+      const next = { ...prev }
+      delete next[key]
+      return next
+    })
+    if (token) discardUpload(token, file)
+  }, [token])
+
+  const reset = useCallback(() => setUploads({}), [])
+
+  return { uploads, uploadFiles, pause, resume, cancel, reset }
+}
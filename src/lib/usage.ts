@@ -0,0 +1,82 @@
+/**
+ * Usage aggregation for conversation messages
+ */
+
+import type { ConversationMessage, UsageBreakdown } from './api'
+import type { ResultRow } from './chart'
+
+export type ModelUsage = UsageBreakdown['byModel'][number]
+
+// Charted directly, so keep it a plain result row
+export interface DailyUsage extends ResultRow {
+  fecha: string
+  costo_usd: number
+  tokens: number
+  mensajes: number
+}
+
+const messageTokens = (message: ConversationMessage) =>
+  (message.tokens?.input || 0) + (message.tokens?.output || 0)
+
+// Only assistant messages carry model/provider and cost
+export function usageByModel(messages: ConversationMessage[]): ModelUsage[] {
+  const byModel = new Map<string, ModelUsage>()
+
+  messages
+    .filter((message) => message.role === 'assistant')
+    .forEach((message) => {
+      const model = message.model || 'desconocido'
+      const provider = message.provider || 'desconocido'
+      const key = `${provider}/${model}`
+      const usage = byModel.get(key) || { model, provider, messages: 0, tokens: 0, costUsd: 0 }
+      usage.messages += 1
+      usage.tokens += messageTokens(message)
+      usage.costUsd += message.costUsd || 0
+      byModel.set(key, usage)
+    })
+
+  return Array.from(byModel.values()).sort((a, b) => b.costUsd - a.costUsd)
+}
+
+// Local calendar day, so "today" matches what the user sees
+function dayKey(dateStr: string): string {
+  const date = new Date(dateStr)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export function usageByDay(messages: ConversationMessage[]): DailyUsage[] {
+  const byDay = new Map<string, DailyUsage>()
+
+  messages.forEach((message) => {
+    const fecha = dayKey(message.createdAt)
+    const usage = byDay.get(fecha) || { fecha, costo_usd: 0, tokens: 0, mensajes: 0 }
+    usage.costo_usd += message.costUsd || 0
+    usage.tokens += messageTokens(message)
+    usage.mensajes += 1
+    byDay.set(fecha, usage)
+  })
+
+  return Array.from(byDay.values())
+    .map((usage) => ({ ...usage, costo_usd: Number(usage.costo_usd.toFixed(6)) }))
+    .sort((a, b) => a.fecha.localeCompare(b.fecha))
+}
+
+// Server totals in the shape the daily chart expects
+export function dailyUsageFromBreakdown(byDay: UsageBreakdown['byDay']): DailyUsage[] {
+  return byDay
+    .map(({ date, costUsd, tokens, messages }) => ({
+      fecha: date.slice(0, 10),
+      costo_usd: Number(costUsd.toFixed(6)),
+      tokens,
+      mensajes: messages,
+    }))
+    .sort((a, b) => a.fecha.localeCompare(b.fecha))
+}
+
+export function formatUsd(cost: number): string {
+  if (cost === 0) return '$0.00'
+  if (cost < 0.01) return `$${cost.toFixed(4)}`
+  return `$${cost.toFixed(2)}`
+}